@@ -0,0 +1,359 @@
+import {
+  ApplicationCommandOptionChoiceData,
+  AutocompleteInteraction,
+  ChannelType,
+  Interaction,
+} from 'discord.js';
+import { getSearchableChannels } from './channels';
+import { getMemberSearchNames } from './users';
+
+/** Discord shows at most this many autocomplete choices */
+const MAX_CHOICES = 25;
+/** Maximum length of a choice name and of a string choice value */
+const MAX_CHOICE_LENGTH = 100;
+
+/**
+ * A single autocomplete suggestion; plain strings and numbers are used as both name and value
+ */
+export type AutocompleteChoice = string | number | ApplicationCommandOptionChoiceData<string | number>;
+
+/**
+ * Produces suggestions for the focused option of an autocomplete interaction
+ * @param query - What the user has typed so far
+ * @param interaction - The autocomplete interaction
+ * @returns The suggestions, best match first; anything beyond 25 is dropped
+ */
+export type AutocompleteProvider = (
+  query: string,
+  interaction: AutocompleteInteraction
+) => AutocompleteChoice[] | Promise<AutocompleteChoice[]>;
+
+/**
+ * Scores how well a text matches a query, or returns null if it does not match at all
+ */
+function scoreMatch(text: string, query: string): number | null {
+  if (text === query) {
+    return 1000;
+  }
+
+  if (text.startsWith(query)) {
+    return 800 - (text.length - query.length);
+  }
+
+  const wordStart = text.search(new RegExp(`[\\s_\\-./]${query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}`));
+  if (wordStart !== -1) {
+    return 600 - wordStart;
+  }
+
+  const index = text.indexOf(query);
+  if (index !== -1) {
+    return 400 - index;
+  }
+
+  // Subsequence match, penalised by how spread out the matched characters are
+  let position = -1;
+  let gaps = 0;
+
+  for (const character of query) {
+    const next = text.indexOf(character, position + 1);
+    if (next === -1) {
+      return null;
+    }
+
+    if (position !== -1) {
+      gaps += next - position - 1;
+    }
+    position = next;
+  }
+
+  return Math.max(1, 200 - gaps);
+}
+
+/**
+ * Ranks items by how well they fuzzily match a query, dropping items that do not match
+ * @param query - The text to match against
+ * @param items - The items to rank
+ * @param getText - Returns the text, or several alternative texts, an item is matched by (default: String)
+ * @returns {T[]} - The matching items, best match first; all items in their original order when the query is empty
+ * @example
+ * rankChoices('gen', ['off-topic', 'dev-general', 'general']);
+ * // ['general', 'dev-general']
+ *
+ * // Match members by any of their names
+ * rankChoices('bob', members, member => [member.user.username, member.displayName]);
+ */
+export function rankChoices<T>(
+  query: string,
+  items: readonly T[],
+  getText: (item: T) => string | string[] = String
+): T[] {
+  const normalizedQuery = query.trim().toLowerCase();
+
+  if (!normalizedQuery) {
+    return [...items];
+  }
+
+  return items
+    .map((item, index) => {
+      const texts = [getText(item)].flat().map(text => text.toLowerCase());
+      const scores = texts
+        .map(text => scoreMatch(text, normalizedQuery))
+        .filter((score): score is number => score !== null);
+
+      return { item, index, score: scores.length ? Math.max(...scores) : null };
+    })
+    .filter(entry => entry.score !== null)
+    .sort((a, b) => b.score! - a.score! || a.index - b.index)
+    .map(entry => entry.item);
+}
+
+/**
+ * Converts provider output into choices Discord accepts
+ * @description Long names are shortened, choices with empty names or over-long string values are
+ * dropped, and at most 25 choices are kept
+ * @internal
+ */
+export function normalizeChoices(choices: AutocompleteChoice[]): ApplicationCommandOptionChoiceData<string | number>[] {
+  const normalized: ApplicationCommandOptionChoiceData<string | number>[] = [];
+
+  for (const choice of choices) {
+    const { name, value, ...rest } = typeof choice === 'object' ? choice : { name: String(choice), value: choice };
+
+    if (!name || (typeof value === 'string' && (value.length === 0 || value.length > MAX_CHOICE_LENGTH))) {
+      continue;
+    }
+
+    normalized.push({
+      ...rest,
+      name: name.length > MAX_CHOICE_LENGTH ? `${name.slice(0, MAX_CHOICE_LENGTH - 1)}…` : name,
+      value
+    });
+
+    if (normalized.length === MAX_CHOICES) {
+      break;
+    }
+  }
+
+  return normalized;
+}
+
+/**
+ * Creates a provider that fuzzily ranks a fixed list or the result of an async source
+ * @param source - The choices, or a function that loads them for an interaction
+ * @returns {AutocompleteProvider} - The provider
+ * @example
+ * const fruit = option.string({
+ *   description: 'Pick a fruit',
+ *   autocomplete: fuzzyChoices(['Apple', 'Banana', 'Cherry', 'Dragonfruit'])
+ * });
+ *
+ * // Load the choices per interaction
+ * const tag = option.string({
+ *   description: 'The tag to show',
+ *   autocomplete: fuzzyChoices(async (interaction) => {
+ *     const tags = await db.tags.findMany({ where: { guildId: interaction.guildId } });
+ *     return tags.map(tag => ({ name: tag.title, value: tag.id }));
+ *   })
+ * });
+ */
+export function fuzzyChoices(
+  source: readonly AutocompleteChoice[] | ((interaction: AutocompleteInteraction) => AutocompleteChoice[] | Promise<AutocompleteChoice[]>)
+): AutocompleteProvider {
+  return async (query, interaction) => {
+    const choices = typeof source === 'function' ? await source(interaction) : source;
+    return rankChoices(query, choices, choice => typeof choice === 'object' ? choice.name : String(choice));
+  };
+}
+
+/**
+ * Wraps a provider so it only runs once the user stops typing
+ * @param provider - The expensive provider to wrap
+ * @param options - Configuration options for the debounce
+ * @param options.delay - How long to wait for further keystrokes in milliseconds (default: 300)
+ * @returns {AutocompleteProvider} - The debounced provider
+ * @description Discord sends an autocomplete interaction for every keystroke. While a user keeps
+ * typing into the same option, earlier interactions are answered with no choices and only the
+ * latest one reaches the wrapped provider. Keep the delay well below Discord's 3 second deadline.
+ * @example
+ * const song = option.string({
+ *   description: 'The song to play',
+ *   autocomplete: debounceProvider(async (query) => {
+ *     const results = await searchSongs(query);
+ *     return results.map(song => ({ name: `${song.artist} - ${song.title}`, value: song.url }));
+ *   }, { delay: 400 })
+ * });
+ */
+export function debounceProvider(
+  provider: AutocompleteProvider,
+  options: { delay?: number } = {}
+): AutocompleteProvider {
+  const { delay = 300 } = options;
+  const pending = new Map<string, { timer: NodeJS.Timeout; resolve: (choices: AutocompleteChoice[]) => void }>();
+
+  return (query, interaction) => {
+    const key = `${interaction.user.id}:${interaction.commandName}:${interaction.options.getFocused(true).name}`;
+    const previous = pending.get(key);
+
+    if (previous) {
+      clearTimeout(previous.timer);
+      previous.resolve([]);
+    }
+
+    return new Promise<AutocompleteChoice[]>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        pending.delete(key);
+        Promise.resolve()
+          .then(() => provider(query, interaction))
+          .then(resolve, reject);
+      }, delay);
+
+      pending.set(key, { timer, resolve });
+    });
+  };
+}
+
+/**
+ * Creates a provider that suggests members of the guild, matched by username and nickname
+ * @param options - Configuration options for the provider
+ * @param options.fetch - Whether to search the guild through the API instead of only the member cache (default: false)
+ * @returns {AutocompleteProvider} - The provider; choice values are member IDs
+ * @example
+ * const target = option.string({ description: 'Who to look up', autocomplete: memberChoices() });
+ */
+export function memberChoices(options: { fetch?: boolean } = {}): AutocompleteProvider {
+  const { fetch = false } = options;
+
+  return async (query, interaction) => {
+    const guild = interaction.guild;
+    if (!guild) {
+      return [];
+    }
+
+    if (fetch && query) {
+      await guild.members.fetch({ query, limit: MAX_CHOICES }).catch(() => null);
+    }
+
+    const members = rankChoices(query, [...guild.members.cache.values()], member => getMemberSearchNames(member));
+
+    return members.map(member => ({
+      name: member.displayName === member.user.username
+        ? member.user.username
+        : `${member.displayName} (@${member.user.username})`,
+      value: member.id
+    }));
+  };
+}
+
+/**
+ * Creates a provider that suggests roles of the guild, excluding @everyone
+ * @returns {AutocompleteProvider} - The provider; choice values are role IDs
+ * @example
+ * const role = option.string({ description: 'The role to join', autocomplete: roleChoices() });
+ */
+export function roleChoices(): AutocompleteProvider {
+  return (query, interaction) => {
+    const guild = interaction.guild;
+    if (!guild) {
+      return [];
+    }
+
+    const roles = [...guild.roles.cache.values()]
+      .filter(role => role.id !== guild.id)
+      .sort((a, b) => b.position - a.position);
+
+    return rankChoices(query, roles, role => role.name).map(role => ({ name: `@${role.name}`, value: role.id }));
+  };
+}
+
+/**
+ * Creates a provider that suggests channels of the guild
+ * @param options - Configuration options for the provider
+ * @param options.type - Only suggest channels of this type
+ * @param options.includeThreads - Whether to also suggest cached threads (default: false)
+ * @returns {AutocompleteProvider} - The provider; choice values are channel IDs
+ * @example
+ * const channel = option.string({
+ *   description: 'Where to post',
+ *   autocomplete: channelChoices({ type: ChannelType.GuildText })
+ * });
+ */
+export function channelChoices(
+  options: { type?: ChannelType; includeThreads?: boolean } = {}
+): AutocompleteProvider {
+  return (query, interaction) => {
+    const guild = interaction.guild;
+    if (!guild) {
+      return [];
+    }
+
+    const channels = [...new Map(getSearchableChannels(guild, options).map(channel => [channel.id, channel])).values()];
+
+    return rankChoices(query, channels, channel => channel.name).map(channel => ({ name: `#${channel.name}`, value: channel.id }));
+  };
+}
+
+/**
+ * Routes autocomplete interactions to the provider registered for the focused option
+ * @class
+ * @example
+ * const autocomplete = new AutocompleteRegistry()
+ *   .register('play', 'song', debounceProvider(searchSongs))
+ *   .register('tag', 'name', fuzzyChoices(['rules', 'faq', 'invite']));
+ *
+ * client.on('interactionCreate', (interaction) => autocomplete.handle(interaction));
+ */
+export class AutocompleteRegistry {
+  private readonly providers: Map<string, AutocompleteProvider> = new Map();
+
+  /**
+   * Registers the provider for an option of a command
+   * @param command - The command name
+   * @param option - The name of the option with autocomplete enabled
+   * @param provider - The provider that produces the suggestions
+   * @returns {this} - The registry, for chaining
+   */
+  public register(command: string, option: string, provider: AutocompleteProvider): this {
+    const key = `${command}:${option}`;
+
+    if (this.providers.has(key)) {
+      throw new Error(`An autocomplete provider for "${command}" option "${option}" is already registered`);
+    }
+
+    this.providers.set(key, provider);
+    return this;
+  }
+
+  /**
+   * Responds to an autocomplete interaction with the suggestions of its provider
+   * @param interaction - The interaction received from the gateway
+   * @returns {Promise<boolean>} - True if a provider was registered for the focused option
+   * @description A provider that throws is answered with no choices, so the user is not left
+   * with a loading indicator
+   */
+  public async handle(interaction: Interaction): Promise<boolean> {
+    if (!interaction.isAutocomplete()) {
+      return false;
+    }
+
+    const focused = interaction.options.getFocused(true);
+    const provider = this.providers.get(`${interaction.commandName}:${focused.name}`);
+
+    if (!provider) {
+      return false;
+    }
+
+    let choices: ApplicationCommandOptionChoiceData<string | number>[] = [];
+
+    try {
+      choices = normalizeChoices(await provider(String(focused.value), interaction));
+    } catch (error) {
+      console.error(`Autocomplete for "${interaction.commandName}" option "${focused.name}" failed:`, error);
+    }
+
+    if (!interaction.responded) {
+      await interaction.respond(choices).catch(() => null);
+    }
+
+    return true;
+  }
+}
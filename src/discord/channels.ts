@@ -54,27 +54,31 @@ export function findChannelByName(
     return exact ? channelName === normalizedName : channelName.includes(normalizedName);
   };
 
-  let channel = guild.channels.cache.find(ch => {
-    if (type && ch.type !== type) {
-      return false;
-    }
-    return nameMatches(ch.name);
-  });
+  return getSearchableChannels(guild, { type, includeThreads }).find(ch => nameMatches(ch.name)) ?? null;
+}
+
+/**
+ * Lists the channels searched by name lookups: the guild channels of the given type, followed by
+ * the cached threads of text channels when requested
+ * @internal
+ */
+export function getSearchableChannels(
+  guild: Guild,
+  options: { type?: ChannelType; includeThreads?: boolean } = {}
+): GuildBasedChannel[] {
+  const { type, includeThreads = false } = options;
+  const channels: GuildBasedChannel[] = [...guild.channels.cache.filter(ch => !type || ch.type === type).values()];
 
-  if (!channel && includeThreads) {
+  if (includeThreads) {
     guild.channels.cache.forEach(ch => {
       if (ch.isTextBased() && 'threads' in ch) {
         const textChannel = ch as BaseGuildTextChannel;
-        const thread = textChannel.threads.cache.find(t => nameMatches(t.name));
-        if (thread) {
-          channel = thread;
-          return;
-        }
+        channels.push(...textChannel.threads.cache.values());
       }
     });
   }
 
-  return channel || null;
+  return channels;
 }
 
 /**
@@ -1,12 +1,219 @@
 import {
-  Collection,
+  ApplicationCommandType,
+  BaseInteraction,
+  CommandInteraction,
+  DiscordAPIError,
+  GuildMember,
+  Interaction,
+  InteractionReplyOptions,
+  Message,
+  MessageFlags,
+  MessageFlagsBitField,
+  MessageFlagsResolvable,
+  PermissionResolvable,
   RepliableInteraction,
+  RESTJSONErrorCodes,
 } from 'discord.js';
+import { CooldownStore, MemoryCooldownStore } from './storage';
+import { getHighestRole } from './data';
+import { getMetricsCollector } from './metrics';
+import { checkPermissions, hasAnyRole } from './users';
+
+/**
+ * The bucket a cooldown is shared across
+ * - `user`: each user has their own cooldown
+ * - `guild`: everyone in a guild shares one cooldown
+ * - `channel`: everyone in a channel shares one cooldown
+ * - `role`: members share a cooldown with others whose highest role is the same
+ * - `global`: one cooldown shared by everyone
+ */
+export type CooldownScope = 'user' | 'guild' | 'channel' | 'role' | 'global';
+
+/**
+ * The information a cooldown is keyed on
+ */
+export interface CooldownContext {
+  userId: string;
+  guildId?: string | null;
+  channelId?: string | null;
+  member?: GuildMember | null;
+}
+
+/**
+ * Anything a cooldown context can be resolved from
+ */
+export type CooldownTarget = Interaction | Message | CooldownContext;
+
+/**
+ * Rules that exempt an invoker from a cooldown
+ */
+export interface CooldownBypass {
+  /** User IDs that are never put on cooldown */
+  users?: string[];
+  /** Role IDs or names whose members are never put on cooldown */
+  roles?: string[];
+  /** Members holding all of these permissions are never put on cooldown */
+  permissions?: PermissionResolvable[];
+}
+
+/**
+ * Per-command cooldown configuration
+ */
+export interface CommandCooldownOptions {
+  scopes: Array<{ scope: CooldownScope; duration: number }>;
+  bypass?: CooldownBypass;
+}
+
+/**
+ * The outcome of a cooldown check
+ */
+export interface CooldownResult {
+  onCooldown: boolean;
+  timeLeft: number;
+  scope: CooldownScope | null;
+  bypassed: boolean;
+}
+
+/**
+ * Resolves the cooldown context of an interaction, message or plain context object
+ * @internal
+ */
+export function resolveCooldownContext(target: CooldownTarget): CooldownContext {
+  if (target instanceof Message) {
+    return {
+      userId: target.author.id,
+      guildId: target.guildId,
+      channelId: target.channelId,
+      member: target.member
+    };
+  }
+
+  if (target instanceof BaseInteraction) {
+    return {
+      userId: target.user.id,
+      guildId: target.guildId,
+      channelId: target.channelId,
+      member: target.member instanceof GuildMember ? target.member : null
+    };
+  }
+
+  return target;
+}
+
+/**
+ * The kind of command a cooldown or lock identifier belongs to
+ */
+export type CommandKind = 'slash' | 'user' | 'message';
+
+const COMMAND_KINDS: readonly string[] = ['slash', 'user', 'message'];
+
+/**
+ * Builds the identifier the cooldowns and locks of a command are kept under
+ * @param name - The command name, or an identifier that already names its kind
+ * @param kind - The kind of command (default: 'slash')
+ * @returns {string} - The identifier, e.g. `slash:daily` or `user:Report`
+ * @description {@link CooldownManager}, {@link LockManager}, the {@link cooldown} guard and the
+ * {@link CommandRegistry} all key commands this way, so a slash command and a context menu command of
+ * the same name never share a cooldown or lock. Identifiers passed to the managers without a kind are
+ * slash commands: `'daily'` and `'slash:daily'` name the same cooldown.
+ * @example
+ * cooldownManager.reset(userId, commandKey('Report', 'user'));
+ */
+export function commandKey(name: string, kind?: CommandKind): string {
+  const parsed = parseCommandKey(name);
+  return `${kind ?? parsed.kind}:${kind ? name : parsed.name}`;
+}
+
+/**
+ * Splits a command identifier into the command's kind and name
+ * @param command - The identifier, with or without a kind
+ * @returns {{ kind: CommandKind; name: string }} - The kind (default: 'slash') and the name of the command
+ */
+export function parseCommandKey(command: string): { kind: CommandKind; name: string } {
+  const separator = command.indexOf(':');
+  const kind = command.slice(0, separator);
+
+  return separator !== -1 && COMMAND_KINDS.includes(kind)
+    ? { kind: kind as CommandKind, name: command.slice(separator + 1) }
+    : { kind: 'slash', name: command };
+}
+
+/**
+ * Builds the identifier of the command an interaction invokes
+ * @internal
+ */
+export function getInteractionCommandKey(interaction: CommandInteraction): string {
+  switch (interaction.commandType) {
+    case ApplicationCommandType.User:
+      return commandKey(interaction.commandName, 'user');
+    case ApplicationCommandType.Message:
+      return commandKey(interaction.commandName, 'message');
+    default:
+      return commandKey(interaction.commandName, 'slash');
+  }
+}
+
+/**
+ * Builds the storage key of a command in a scope, or null if the context cannot be keyed on that scope
+ * @internal
+ */
+export function getCooldownKey(
+  command: string,
+  scope: CooldownScope,
+  context: CooldownContext
+): string | null {
+  let id: string | null | undefined;
+
+  switch (scope) {
+    case 'user':
+      id = context.userId;
+      break;
+    case 'guild':
+      id = context.guildId;
+      break;
+    case 'channel':
+      id = context.channelId;
+      break;
+    case 'role':
+      id = context.member ? getHighestRole(context.member)?.id : null;
+      break;
+    case 'global':
+      id = '*';
+      break;
+  }
+
+  return id ? `${command}:${scope}:${id}` : null;
+}
+
+/**
+ * Checks whether a context matches any bypass rule
+ * @internal
+ */
+export function isCooldownBypassed(
+  context: CooldownContext,
+  bypass: CooldownBypass | undefined,
+  ownerIds: string[]
+): boolean {
+  if (ownerIds.includes(context.userId) || bypass?.users?.includes(context.userId)) {
+    return true;
+  }
+
+  if (!context.member) {
+    return false;
+  }
+
+  if (bypass?.roles?.length && hasAnyRole(context.member, bypass.roles)) {
+    return true;
+  }
+
+  return !!bypass?.permissions?.length && checkPermissions(context.member, bypass.permissions).hasPermission;
+}
+
 /**
  * Manages cooldowns for commands
  * Manages command cooldowns for users
  * @class
- * @description Tracks and enforces cooldown periods for commands per user
+ * @description Tracks and enforces cooldown periods for commands per user, guild, channel, role or globally
  * @example
  * // Using cooldownManager to check if a user is on cooldown
  * const { onCooldown, timeLeft } = cooldownManager.check(
@@ -18,18 +225,63 @@ import {
  * if (onCooldown) {
  *   console.log(`Wait ${timeLeft / 1000}s before using this command again.`);
  * }
+ *
+ * // Persisting cooldowns to disk so they survive restarts
+ * const persistentCooldowns = new CooldownManager({
+ *   store: new JsonFileCooldownStore('./data/cooldowns.json'),
+ *   ownerIds: ['123456789012345678']
+ * });
  */
 export class CooldownManager {
-  private cooldowns: Collection<string, Collection<string, number>> = new Collection();
+  private readonly store: CooldownStore;
+  private readonly ownerIds: string[];
+  private readonly commands: Map<string, CommandCooldownOptions> = new Map();
 
   /**
-   * Checks if a user is on cooldown for a specific command
-   * @param userId - The ID of the user to check
-   * @param command - The command identifier
-   * @param duration - The cooldown duration in milliseconds
-   * @returns {object} - Object containing cooldown status and time remaining
-   * @returns {boolean} onCooldown - Whether the user is on cooldown
+   * @param options - Configuration options for the manager
+   * @param options.store - Storage backend for cooldown entries (default: in-memory store)
+   * @param options.ownerIds - IDs of bot owners who bypass every cooldown
+   */
+  constructor(options: { store?: CooldownStore; ownerIds?: string[] } = {}) {
+    this.store = options.store ?? new MemoryCooldownStore();
+    this.ownerIds = options.ownerIds ?? [];
+  }
+
+  /**
+   * Configures the cooldown scopes and bypass rules of a command
+   * @param command - The command identifier (see {@link commandKey})
+   * @param options - The cooldown configuration
+   * @param options.scopes - Scopes to enforce, each with its own duration in milliseconds
+   * @param options.bypass - Users, roles and permissions that are exempt from the cooldown
+   * @returns {this} - The manager, for chaining
+   * @example
+   * // One use per user per day, and at most one use per guild every 10 seconds
+   * cooldownManager.configure('daily', {
+   *   scopes: [
+   *     { scope: 'user', duration: 24 * 60 * 60 * 1000 },
+   *     { scope: 'guild', duration: 10000 }
+   *   ],
+   *   bypass: {
+   *     roles: ['Moderator'],
+   *     permissions: [PermissionFlagsBits.Administrator]
+   *   }
+   * });
+   */
+  public configure(command: string, options: CommandCooldownOptions): this {
+    this.commands.set(commandKey(command), options);
+    return this;
+  }
+
+  /**
+   * Checks if an invoker is on cooldown for a specific command, starting the cooldown if not
+   * @param target - The ID of the user to check, or an interaction, message or cooldown context
+   * @param command - The command identifier (see {@link commandKey})
+   * @param duration - The cooldown duration in milliseconds; when omitted the configured scopes of the command are used
+   * @returns {CooldownResult} - Object containing cooldown status and time remaining
+   * @returns {boolean} onCooldown - Whether the invoker is on cooldown
    * @returns {number} timeLeft - Time left in milliseconds before cooldown expires
+   * @returns {CooldownScope | null} scope - The scope that triggered the cooldown, if any
+   * @returns {boolean} bypassed - Whether a bypass rule exempted the invoker
    * @example
    * const result = cooldownManager.check(
    *   message.author.id,
@@ -41,59 +293,252 @@ export class CooldownManager {
    *   const minutes = Math.ceil(result.timeLeft / 60000);
    *   return `Wait ${minutes} minutes before using this command.`;
    * }
+   *
+   * // Using the scopes configured with configure()
+   * const { onCooldown, scope, timeLeft } = cooldownManager.check(interaction, 'daily');
+   * if (onCooldown) {
+   *   await interaction.reply(`This command is on ${scope} cooldown for ${Math.ceil(timeLeft / 1000)}s.`);
+   * }
    */
   public check(
-    userId: string,
+    target: string | CooldownTarget,
     command: string,
-    duration: number
-  ): { onCooldown: boolean; timeLeft: number } {
-    if (!this.cooldowns.has(command)) {
-      this.cooldowns.set(command, new Collection());
+    duration?: number
+  ): CooldownResult {
+    return this.evaluate(target, command, duration, true);
+  }
+
+  /**
+   * Checks if an invoker is on cooldown for a specific command without starting the cooldown
+   * @param target - The ID of the user to check, or an interaction, message or cooldown context
+   * @param command - The command identifier (see {@link commandKey})
+   * @param duration - The cooldown duration in milliseconds; when omitted the configured scopes of the command are used
+   * @returns {CooldownResult} - Object containing cooldown status and time remaining
+   * @example
+   * // Grey out a button while the user is still on cooldown
+   * const { onCooldown } = cooldownManager.peek(interaction, 'daily');
+   * const claimButton = new ButtonBuilder()
+   *   .setCustomId('claim')
+   *   .setLabel('Claim')
+   *   .setStyle(ButtonStyle.Success)
+   *   .setDisabled(onCooldown);
+   */
+  public peek(
+    target: string | CooldownTarget,
+    command: string,
+    duration?: number
+  ): CooldownResult {
+    return this.evaluate(target, command, duration, false);
+  }
+
+  /**
+   * Ends the cooldowns of a command for an invoker
+   * @param target - The ID of the user, or an interaction, message or cooldown context
+   * @param command - The command identifier (see {@link commandKey})
+   * @description Clears every configured scope the target resolves to, so resetting
+   * from an interaction also resets the guild, channel and role cooldowns it falls in
+   * @example
+   * // Let a user claim their daily reward again
+   * cooldownManager.reset('123456789012345678', 'daily');
+   */
+  public reset(target: string | CooldownTarget, command: string): void {
+    command = commandKey(command);
+    const context = typeof target === 'string'
+      ? { userId: target }
+      : resolveCooldownContext(target);
+    const scopes = this.commands.get(command)?.scopes ?? [{ scope: 'user' as const }];
+
+    for (const { scope } of scopes) {
+      const key = getCooldownKey(command, scope, context);
+      if (key) {
+        this.store.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Ends every active cooldown of a command
+   * @param command - The command identifier (see {@link commandKey})
+   * @example
+   * // Reset the event command for everyone once the event starts
+   * cooldownManager.clear('event');
+   */
+  public clear(command: string): void {
+    const prefix = `${commandKey(command)}:`;
+
+    for (const { key } of this.store.entries()) {
+      if (key.startsWith(prefix)) {
+        this.store.delete(key);
+      }
     }
+  }
 
+  /**
+   * Lists the active user-scoped cooldowns of a user
+   * @param userId - The ID of the user
+   * @returns {Array<{ command: string; kind: CommandKind; timeLeft: number }>} - The names and kinds of the commands the user is on cooldown for
+   * @example
+   * const cooldowns = cooldownManager.list(interaction.user.id);
+   * const lines = cooldowns.map(({ command, kind, timeLeft }) =>
+   *   `${kind === 'slash' ? `/${command}` : command}: ${Math.ceil(timeLeft / 1000)}s`
+   * );
+   * await interaction.reply(lines.join('\n') || 'You have no active cooldowns.');
+   */
+  public list(userId: string): Array<{ command: string; kind: CommandKind; timeLeft: number }> {
+    const suffix = `:user:${userId}`;
     const now = Date.now();
-    const timestamps = this.cooldowns.get(command);
 
-    if (!timestamps) {
-      throw new Error('Could not get cooldown collection');
+    return this.store.entries()
+      .filter(({ key }) => key.endsWith(suffix))
+      .map(({ key, expiresAt }) => {
+        const { kind, name } = parseCommandKey(key.slice(0, -suffix.length));
+        return { command: name, kind, timeLeft: expiresAt - now };
+      });
+  }
+
+  /**
+   * Stops the store's timers and releases its resources
+   * @example
+   * process.on('SIGTERM', () => {
+   *   cooldownManager.dispose();
+   *   client.destroy();
+   * });
+   */
+  public dispose(): void {
+    this.store.dispose?.();
+  }
+
+  private evaluate(
+    target: string | CooldownTarget,
+    command: string,
+    duration: number | undefined,
+    consume: boolean
+  ): CooldownResult {
+    command = commandKey(command);
+    const context = typeof target === 'string'
+      ? { userId: target }
+      : resolveCooldownContext(target);
+    const config = this.commands.get(command);
+
+    const scopes = duration !== undefined
+      ? [{ scope: 'user' as const, duration }]
+      : config?.scopes;
+
+    if (!scopes) {
+      throw new Error(`No cooldown configured for command "${command}"`);
     }
 
-    const cooldownAmount = duration;
+    if (isCooldownBypassed(context, config?.bypass, this.ownerIds)) {
+      return { onCooldown: false, timeLeft: 0, scope: null, bypassed: true };
+    }
+
+    const now = Date.now();
+    const keys: Array<{ key: string; duration: number }> = [];
+    let triggered: { scope: CooldownScope; timeLeft: number } | null = null;
+
+    for (const { scope, duration: scopeDuration } of scopes) {
+      const key = getCooldownKey(command, scope, context);
+      if (!key) {
+        continue;
+      }
+
+      keys.push({ key, duration: scopeDuration });
+      const lastUsed = this.store.get(key);
 
-    if (timestamps.has(userId)) {
-      const expirationTime = timestamps.get(userId)! + cooldownAmount;
+      if (lastUsed !== undefined) {
+        const expirationTime = lastUsed + scopeDuration;
 
-      if (now < expirationTime) {
-        const timeLeft = expirationTime - now;
-        return { onCooldown: true, timeLeft };
+        if (now < expirationTime && (!triggered || expirationTime - now > triggered.timeLeft)) {
+          triggered = { scope, timeLeft: expirationTime - now };
+        }
       }
     }
 
-    timestamps.set(userId, now);
-    setTimeout(() => timestamps.delete(userId), cooldownAmount);
+    if (triggered) {
+      if (consume) {
+        getMetricsCollector()?.recordCooldownRejection(parseCommandKey(command).name);
+      }
+
+      return { onCooldown: true, timeLeft: triggered.timeLeft, scope: triggered.scope, bypassed: false };
+    }
 
-    return { onCooldown: false, timeLeft: 0 };
+    if (consume) {
+      for (const { key, duration: scopeDuration } of keys) {
+        this.store.set(key, now, scopeDuration);
+      }
+    }
+
+    return { onCooldown: false, timeLeft: 0, scope: null, bypassed: false };
   }
 }
 
 // Singleton instance for cooldown management
 export const cooldownManager = new CooldownManager();
 
+/**
+ * Handles an error raised while responding to an interaction
+ * @param error - The error thrown by discord.js
+ * @param interaction - The interaction that could not be responded to
+ */
+export type InteractionErrorHandler = (error: unknown, interaction: RepliableInteraction) => void | Promise<void>;
+
+let interactionErrorHandler: InteractionErrorHandler | null = null;
+
+/**
+ * Sets the handler that receives errors raised by {@link deferOrReply}
+ * @param handler - The handler, or null to restore the default behaviour
+ * @description Without a handler, responses to expired or unknown interactions are dropped and any
+ * other error is thrown to the caller
+ * @example
+ * setInteractionErrorHandler((error, interaction) => {
+ *   if (isExpiredInteractionError(error)) {
+ *     logger.warn(`Interaction ${interaction.id} expired before we could respond`);
+ *   } else {
+ *     logger.error(error);
+ *   }
+ * });
+ */
+export function setInteractionErrorHandler(handler: InteractionErrorHandler | null): void {
+  interactionErrorHandler = handler;
+}
+
+/**
+ * Checks whether an error means the interaction can no longer be responded to
+ * @param error - The error to check
+ * @returns {boolean} - True for unknown interactions and expired interaction tokens
+ * @example
+ * try {
+ *   await interaction.editReply('Done!');
+ * } catch (error) {
+ *   if (!isExpiredInteractionError(error)) throw error;
+ * }
+ */
+export function isExpiredInteractionError(error: unknown): boolean {
+  return error instanceof DiscordAPIError && (
+    error.code === RESTJSONErrorCodes.UnknownInteraction ||
+    error.code === RESTJSONErrorCodes.InvalidWebhookToken
+  );
+}
+
 /**
  * Abstracts the defer/reply pattern for interactions
  * @param interaction - The interaction to reply to or defer
- * @param content - The content to reply with, either as a string or object with options
- * @param content.content - The message content
- * @param content.ephemeral - Whether the response should be ephemeral (visible only to sender)
- * @returns {Promise<void>} - Resolves when the response is sent
+ * @param content - The response, either as a string or as full reply options
+ * @param options - Configuration options for the response
+ * @param options.onError - Handles errors for this call instead of the handler set with {@link setInteractionErrorHandler}
+ * @returns {Promise<Message | null>} - The sent or edited message, or null if nothing was sent
+ * @description Edits the reply if the interaction was deferred, follows up if it was already
+ * replied to, and replies otherwise. An empty response defers the interaction instead.
+ * Ephemeral responses can be requested with `flags: MessageFlags.Ephemeral` or `ephemeral: true`.
  * @example
  * // Simple reply
  * await deferOrReply(interaction, 'Command executed successfully');
  *
- * // With ephemeral option
- * await deferOrReply(interaction, {
- *   content: 'Only you can see this message',
- *   ephemeral: true
+ * // Ephemeral reply with an embed and buttons
+ * const message = await deferOrReply(interaction, {
+ *   embeds: [buildEmbed({ title: 'Settings' })],
+ *   components: [createButtonRow([{ customId: 'reset', label: 'Reset' }])],
+ *   flags: MessageFlags.Ephemeral
  * });
  *
  * // Defer first (shows typing indicator)
@@ -103,30 +548,125 @@ export const cooldownManager = new CooldownManager();
  */
 export async function deferOrReply(
   interaction: RepliableInteraction,
-  content: string | { content?: string; ephemeral?: boolean }
-): Promise<void> {
-  const ephemeral = typeof content === 'object' ? content.ephemeral ?? false : false;
-  const message = typeof content === 'string' ? content : content.content ?? '';
+  content: string | InteractionReplyOptions,
+  options: { onError?: InteractionErrorHandler } = {}
+): Promise<Message | null> {
+  const { ephemeral, flags, withResponse, fetchReply, tts, poll, ...message } =
+    typeof content === 'string' ? { content } as InteractionReplyOptions : content;
+
+  const messageFlags = new MessageFlagsBitField(flags as MessageFlagsResolvable | undefined);
+  const isEphemeral = !!ephemeral || messageFlags.has(MessageFlags.Ephemeral);
+  const replyFlags = messageFlags.add(isEphemeral ? MessageFlags.Ephemeral : 0).bitfield as InteractionReplyOptions['flags'];
+  const isEmpty = !message.content && !message.embeds?.length && !message.components?.length &&
+    !message.files?.length && !poll;
 
   try {
     if (interaction.deferred) {
-      await interaction.editReply(message);
-    } else if (interaction.replied) {
-      await interaction.followUp({
-        content: message,
-        ephemeral
-      });
-    } else {
-      if (message) {
-        await interaction.reply({
-          content: message,
-          ephemeral
-        });
+      return isEmpty ? null : await interaction.editReply(message);
+    }
+
+    if (interaction.replied) {
+      return await interaction.followUp({ ...message, tts, poll, flags: replyFlags });
+    }
+
+    const response = isEmpty
+      ? await interaction.deferReply({ flags: isEphemeral ? MessageFlags.Ephemeral : undefined, withResponse: true })
+      : await interaction.reply({ ...message, tts, poll, flags: replyFlags, withResponse: true });
+
+    return response.resource?.message ?? null;
+  } catch (error) {
+    const handler = options.onError ?? interactionErrorHandler;
+
+    if (handler) {
+      await handler(error, interaction);
+      return null;
+    }
+
+    // Nobody is left to see the response
+    if (isExpiredInteractionError(error)) {
+      return null;
+    }
+
+    throw error;
+  }
+}
+
+// The methods that send the initial response to an interaction
+const RESPONSE_METHODS = ['reply', 'deferReply', 'update', 'deferUpdate', 'showModal'];
+
+/**
+ * Defers an interaction if it has not been responded to within a delay
+ * @param interaction - The interaction to watch
+ * @param options - Configuration options for the auto-defer
+ * @param options.delay - How long to wait before deferring in milliseconds (default: 2500)
+ * @param options.ephemeral - Whether the deferred response is ephemeral (default: false)
+ * @returns {() => void} - Cancels the auto-defer; call it once the handler has finished
+ * @description Discord fails interactions that receive no response within 3 seconds. The auto-defer is
+ * cancelled as soon as the interaction starts responding, even while that response is still in flight.
+ * Responses sent through {@link deferOrReply} after the auto-defer fired edit the deferred reply.
+ * @example
+ * const cancel = autoDefer(interaction);
+ *
+ * try {
+ *   const report = await buildSlowReport();
+ *   await deferOrReply(interaction, { embeds: [report] });
+ * } finally {
+ *   cancel();
+ * }
+ */
+export function autoDefer(
+  interaction: RepliableInteraction,
+  options: { delay?: number; ephemeral?: boolean } = {}
+): () => void {
+  const { delay = 2500, ephemeral = false } = options;
+  const target = interaction as unknown as Record<string, (...args: unknown[]) => unknown>;
+  const wrapped: Array<{ method: string; wrapper: unknown; descriptor: PropertyDescriptor | undefined }> = [];
+
+  const cancel = () => {
+    clearTimeout(timer);
+
+    // Puts back what the interaction had before: its own property, or nothing to fall back to the prototype
+    for (const { method, wrapper, descriptor } of wrapped.splice(0)) {
+      if (target[method] !== wrapper) {
+        continue;
+      }
+
+      if (descriptor) {
+        Object.defineProperty(interaction, method, descriptor);
       } else {
-        await interaction.deferReply({ ephemeral });
+        delete target[method];
       }
     }
-  } catch (error) {
-    // Handle errors silently
+  };
+
+  // `deferred` and `replied` are only set once a response went out, so a response that is still
+  // in flight is noticed by its call instead
+  for (const method of RESPONSE_METHODS) {
+    const original = target[method];
+    if (typeof original !== 'function') {
+      continue;
+    }
+
+    const descriptor = Object.getOwnPropertyDescriptor(interaction, method);
+    if (descriptor?.configurable === false) {
+      continue;
+    }
+
+    const wrapper = (...args: unknown[]) => {
+      cancel();
+      return original.apply(interaction, args);
+    };
+
+    Object.defineProperty(interaction, method, { value: wrapper, configurable: true, writable: true });
+    wrapped.push({ method, wrapper, descriptor });
   }
+
+  const timer = setTimeout(() => {
+    cancel();
+    if (!interaction.deferred && !interaction.replied) {
+      deferOrReply(interaction, { flags: ephemeral ? MessageFlags.Ephemeral : undefined }).catch(() => null);
+    }
+  }, delay);
+
+  return cancel;
 }
@@ -0,0 +1,170 @@
+import {
+  ApplicationCommandType,
+  GuildMember,
+  LocalizationMap,
+  Message,
+  MessageContextMenuCommandInteraction,
+  PermissionResolvable,
+  User,
+  UserContextMenuCommandInteraction,
+} from 'discord.js';
+import { CommandCooldownOptions } from './command';
+import { CommandGuard } from './guards';
+import { CommandLockOptions, LockPolicy } from './locks';
+import { createMessageLink } from './message';
+import { getUserDisplayName } from './users';
+
+/**
+ * The resolved target of a user context menu command
+ */
+export interface UserCommandTarget {
+  user: User;
+  /** The targeted member, or null outside guilds or when the user is not a member */
+  member: GuildMember | null;
+  /** The member's nickname, or the username when there is none */
+  displayName: string;
+}
+
+/**
+ * The resolved target of a message context menu command
+ */
+export interface MessageCommandTarget {
+  message: Message;
+  author: User;
+  /** A jump link to the message, or an empty string for messages in DMs */
+  link: string;
+}
+
+interface ContextMenuCommandBase {
+  name: string;
+  nameLocalizations?: LocalizationMap;
+  cooldown?: number | CommandCooldownOptions;
+  defaultMemberPermissions?: PermissionResolvable | null;
+  dmPermission?: boolean;
+  nsfw?: boolean;
+  guards?: CommandGuard[];
+  autoDefer?: boolean | { delay?: number; ephemeral?: boolean };
+  lock?: LockPolicy | CommandLockOptions;
+}
+
+/**
+ * A command shown under "Apps" when right-clicking a user, created with {@link defineUserCommand}
+ */
+export interface UserContextMenuCommand extends ContextMenuCommandBase {
+  type: ApplicationCommandType.User;
+  execute(interaction: UserContextMenuCommandInteraction, target: UserCommandTarget, signal: AbortSignal): unknown | Promise<unknown>;
+}
+
+/**
+ * A command shown under "Apps" when right-clicking a message, created with {@link defineMessageCommand}
+ */
+export interface MessageContextMenuCommand extends ContextMenuCommandBase {
+  type: ApplicationCommandType.Message;
+  execute(interaction: MessageContextMenuCommandInteraction, target: MessageCommandTarget, signal: AbortSignal): unknown | Promise<unknown>;
+}
+
+/**
+ * A user or message context menu command
+ */
+export type ContextMenuCommand = UserContextMenuCommand | MessageContextMenuCommand;
+
+function validateContextMenuName(name: string): void {
+  // Unlike slash commands, context menu names may contain spaces and capitals
+  if (!name.trim() || name.length > 32) {
+    throw new Error(`Invalid context menu command name "${name}"`);
+  }
+}
+
+/**
+ * Resolves the target of a user context menu interaction
+ * @param interaction - The user context menu interaction
+ * @returns {UserCommandTarget} - The targeted user, their member object and display name
+ */
+export function resolveUserTarget(interaction: UserContextMenuCommandInteraction): UserCommandTarget {
+  const member = interaction.targetMember instanceof GuildMember ? interaction.targetMember : null;
+
+  return {
+    user: interaction.targetUser,
+    member,
+    displayName: getUserDisplayName(member ?? interaction.targetUser)
+  };
+}
+
+/**
+ * Resolves the target of a message context menu interaction
+ * @param interaction - The message context menu interaction
+ * @returns {MessageCommandTarget} - The targeted message, its author and a jump link to it
+ */
+export function resolveMessageTarget(interaction: MessageContextMenuCommandInteraction): MessageCommandTarget {
+  const message = interaction.targetMessage;
+
+  return {
+    message,
+    author: message.author,
+    link: createMessageLink(message)
+  };
+}
+
+/**
+ * Defines a user context menu command
+ * @param definition - The command definition
+ * @param definition.name - The name shown in the menu (1-32 characters, spaces and capitals allowed)
+ * @param definition.nameLocalizations - Localized names keyed by locale
+ * @param definition.cooldown - Cooldown duration in milliseconds, or a per-scope cooldown configuration
+ * @param definition.defaultMemberPermissions - Permissions a member needs to see the command by default
+ * @param definition.dmPermission - Whether the command is available in DMs
+ * @param definition.nsfw - Whether the command is age-restricted
+ * @param definition.guards - Checks that must pass before the command runs, in order
+ * @param definition.autoDefer - Defer the reply if the handler has not responded after about 2.5 seconds
+ * @param definition.lock - Keep the command from running more than once at a time, with a lock policy or configuration
+ * @param definition.execute - The handler run when the command is used, with the resolved target and the lock's abort signal
+ * @returns {UserContextMenuCommand} - The command, ready to be added to a {@link CommandRegistry}
+ * @example
+ * const userInfo = defineUserCommand({
+ *   name: 'User info',
+ *   execute: async (interaction, { user, member, displayName }) => {
+ *     await interaction.reply({
+ *       embeds: [buildEmbed({
+ *         title: displayName,
+ *         thumbnail: user.displayAvatarURL(),
+ *         fields: [
+ *           { name: 'Joined Discord', value: formatTimeAgo(user.createdAt) },
+ *           { name: 'Joined server', value: member?.joinedAt ? formatTimeAgo(member.joinedAt) : 'Not a member' }
+ *         ]
+ *       })],
+ *       flags: MessageFlags.Ephemeral
+ *     });
+ *   }
+ * });
+ */
+export function defineUserCommand(
+  definition: Omit<UserContextMenuCommand, 'type'>
+): UserContextMenuCommand {
+  validateContextMenuName(definition.name);
+  return { ...definition, type: ApplicationCommandType.User };
+}
+
+/**
+ * Defines a message context menu command
+ * @param definition - The command definition, with the same fields as {@link defineUserCommand}
+ * @returns {MessageContextMenuCommand} - The command, ready to be added to a {@link CommandRegistry}
+ * @example
+ * const report = defineMessageCommand({
+ *   name: 'Report message',
+ *   guards: [guildOnly()],
+ *   execute: async (interaction, { message, author, link }) => {
+ *     const modLog = interaction.guild!.channels.cache.get(MOD_LOG_CHANNEL_ID);
+ *     if (modLog?.isTextBased()) {
+ *       await modLog.send(`${interaction.user} reported a message by ${author}: ${link}\n> ${message.content}`);
+ *     }
+ *
+ *     await interaction.reply({ content: 'Thanks, the moderators have been notified.', flags: MessageFlags.Ephemeral });
+ *   }
+ * });
+ */
+export function defineMessageCommand(
+  definition: Omit<MessageContextMenuCommand, 'type'>
+): MessageContextMenuCommand {
+  validateContextMenuName(definition.name);
+  return { ...definition, type: ApplicationCommandType.Message };
+}
@@ -0,0 +1,325 @@
+import {
+  APIApplicationCommand,
+  ApplicationCommandType,
+  RESTPostAPIApplicationCommandsJSONBody,
+  Routes,
+} from 'discord.js';
+import { CommandRegistry } from './registry';
+
+/**
+ * The subset of a REST client used to deploy commands
+ * @description Matches the `REST` class of discord.js, so `client.rest` can be passed directly,
+ * while tests can pass a local fake instead
+ */
+export interface CommandRestClient {
+  get(route: `/${string}`): Promise<unknown>;
+  post(route: `/${string}`, options: { body: unknown }): Promise<unknown>;
+  put(route: `/${string}`, options: { body: unknown }): Promise<unknown>;
+  delete(route: `/${string}`): Promise<unknown>;
+}
+
+/**
+ * The differences between locally defined and registered commands
+ */
+export interface CommandDiff {
+  added: RESTPostAPIApplicationCommandsJSONBody[];
+  removed: APIApplicationCommand[];
+  changed: Array<{
+    local: RESTPostAPIApplicationCommandsJSONBody;
+    remote: APIApplicationCommand;
+    changes: string[];
+  }>;
+  unchanged: string[];
+}
+
+type CommandLike = RESTPostAPIApplicationCommandsJSONBody | APIApplicationCommand;
+type LocalizationsLike = Partial<Record<string, string | null>> | null;
+
+/**
+ * The fields of a command option the diff compares, shared by local payloads and registered commands
+ */
+interface OptionLike {
+  type: number;
+  name: string;
+  name_localizations?: LocalizationsLike;
+  description: string;
+  description_localizations?: LocalizationsLike;
+  required?: boolean;
+  autocomplete?: boolean;
+  choices?: Array<{ name: string; name_localizations?: LocalizationsLike; value: string | number }>;
+  channel_types?: number[];
+  min_value?: number;
+  max_value?: number;
+  min_length?: number;
+  max_length?: number;
+  options?: OptionLike[];
+}
+
+const COMMAND_TYPE_LABELS: Record<number, string> = {
+  [ApplicationCommandType.ChatInput]: '/',
+  [ApplicationCommandType.User]: 'user:',
+  [ApplicationCommandType.Message]: 'message:'
+};
+
+function commandKey(command: CommandLike): string {
+  return `${command.type ?? ApplicationCommandType.ChatInput}:${command.name}`;
+}
+
+function commandLabel(command: CommandLike): string {
+  return `${COMMAND_TYPE_LABELS[command.type ?? ApplicationCommandType.ChatInput] ?? ''}${command.name}`;
+}
+
+function normalizeLocalizations(map: LocalizationsLike | undefined): Record<string, string> | undefined {
+  if (!map) {
+    return undefined;
+  }
+
+  const entries = Object.entries(map)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    .sort(([a], [b]) => a.localeCompare(b));
+
+  return entries.length ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Reduces an option to the fields Discord stores, in a fixed order, dropping defaults the API omits
+ */
+function normalizeOption(option: OptionLike): OptionLike {
+  return {
+    type: option.type,
+    name: option.name,
+    name_localizations: normalizeLocalizations(option.name_localizations),
+    description: option.description,
+    description_localizations: normalizeLocalizations(option.description_localizations),
+    required: option.required || undefined,
+    autocomplete: option.autocomplete || undefined,
+    choices: option.choices?.map(choice => ({
+      name: choice.name,
+      name_localizations: normalizeLocalizations(choice.name_localizations),
+      value: choice.value
+    })),
+    channel_types: option.channel_types ? [...option.channel_types].sort() : undefined,
+    min_value: option.min_value,
+    max_value: option.max_value,
+    min_length: option.min_length,
+    max_length: option.max_length,
+    options: option.options?.map(normalizeOption)
+  };
+}
+
+function describeOptionChanges(
+  local: OptionLike[] = [],
+  remote: OptionLike[] = [],
+  path = ''
+): string[] {
+  const changes: string[] = [];
+  const remoteByName = new Map(remote.map(option => [option.name, option]));
+  const localNames = new Set(local.map(option => option.name));
+
+  for (const option of local) {
+    const remoteOption = remoteByName.get(option.name);
+    const name = `${path}${option.name}`;
+
+    if (!remoteOption) {
+      changes.push(`+ option "${name}"`);
+      continue;
+    }
+
+    const { options: localChildren, ...localRest } = normalizeOption(option);
+    const { options: remoteChildren, ...remoteRest } = normalizeOption(remoteOption);
+
+    for (const field of Object.keys(localRest) as Array<keyof typeof localRest>) {
+      if (JSON.stringify(localRest[field]) !== JSON.stringify(remoteRest[field])) {
+        changes.push(`~ option "${name}" ${field}: ${JSON.stringify(remoteRest[field])} -> ${JSON.stringify(localRest[field])}`);
+      }
+    }
+
+    changes.push(...describeOptionChanges(localChildren, remoteChildren, `${name} `));
+  }
+
+  for (const option of remote) {
+    if (!localNames.has(option.name)) {
+      changes.push(`- option "${path}${option.name}"`);
+    }
+  }
+
+  if (!changes.length && JSON.stringify(local.map(option => option.name)) !== JSON.stringify(remote.map(option => option.name))) {
+    changes.push(`~ option order${path ? ` of "${path.trim()}"` : ''}`);
+  }
+
+  return changes;
+}
+
+function describeCommandChanges(
+  local: RESTPostAPIApplicationCommandsJSONBody,
+  remote: APIApplicationCommand
+): string[] {
+  const changes: string[] = [];
+  const fields: Array<[string, unknown, unknown]> = [
+    ['description', 'description' in local ? local.description : '', remote.description ?? ''],
+    ['name_localizations', normalizeLocalizations(local.name_localizations), normalizeLocalizations(remote.name_localizations)],
+    ['description_localizations', normalizeLocalizations(local.description_localizations), normalizeLocalizations(remote.description_localizations)],
+    ['default_member_permissions', local.default_member_permissions ?? null, remote.default_member_permissions ?? null],
+    ['dm_permission', local.dm_permission ?? true, remote.dm_permission ?? true],
+    ['nsfw', local.nsfw ?? false, remote.nsfw ?? false]
+  ];
+
+  for (const [field, localValue, remoteValue] of fields) {
+    if (JSON.stringify(localValue) !== JSON.stringify(remoteValue)) {
+      changes.push(`~ ${field}: ${JSON.stringify(remoteValue)} -> ${JSON.stringify(localValue)}`);
+    }
+  }
+
+  const localOptions: OptionLike[] | undefined = 'options' in local ? local.options : undefined;
+  const remoteOptions: OptionLike[] | undefined = remote.options;
+
+  changes.push(...describeOptionChanges(localOptions, remoteOptions));
+
+  return changes;
+}
+
+/**
+ * Compares locally defined commands against the commands registered with Discord
+ * @param local - The command payloads defined locally
+ * @param remote - The commands currently registered, as returned by the Discord API
+ * @returns {CommandDiff} - The added, removed, changed and unchanged commands
+ * @example
+ * const remote = await rest.get(Routes.applicationCommands(clientId)) as APIApplicationCommand[];
+ * const diff = diffCommands(registry.toJSON(), remote);
+ *
+ * console.log(`${diff.added.length} new, ${diff.changed.length} changed, ${diff.removed.length} removed`);
+ */
+export function diffCommands(
+  local: RESTPostAPIApplicationCommandsJSONBody[],
+  remote: APIApplicationCommand[]
+): CommandDiff {
+  const remoteByKey = new Map(remote.map(command => [commandKey(command), command]));
+  const localKeys = new Set(local.map(commandKey));
+  const diff: CommandDiff = { added: [], removed: [], changed: [], unchanged: [] };
+
+  for (const command of local) {
+    const remoteCommand = remoteByKey.get(commandKey(command));
+
+    if (!remoteCommand) {
+      diff.added.push(command);
+      continue;
+    }
+
+    const changes = describeCommandChanges(command, remoteCommand);
+
+    if (changes.length) {
+      diff.changed.push({ local: command, remote: remoteCommand, changes });
+    } else {
+      diff.unchanged.push(commandLabel(command));
+    }
+  }
+
+  for (const command of remote) {
+    if (!localKeys.has(commandKey(command))) {
+      diff.removed.push(command);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Formats a command diff as human-readable text
+ * @param diff - The diff produced by {@link diffCommands}
+ * @returns {string} - One line per added, removed or changed command, with indented details
+ * @example
+ * console.log(formatCommandDiff(diffCommands(registry.toJSON(), remote)));
+ * // + /ping
+ * // ~ /ban
+ * //     ~ description: "Ban a user" -> "Bans a member"
+ * //     + option "days"
+ * // - /oldcommand
+ */
+export function formatCommandDiff(diff: CommandDiff): string {
+  const lines: string[] = [];
+
+  for (const command of diff.added) {
+    lines.push(`+ ${commandLabel(command)}`);
+  }
+
+  for (const { local, changes } of diff.changed) {
+    lines.push(`~ ${commandLabel(local)}`);
+    lines.push(...changes.map(change => `    ${change}`));
+  }
+
+  for (const command of diff.removed) {
+    lines.push(`- ${commandLabel(command)}`);
+  }
+
+  return lines.length ? lines.join('\n') : 'No changes';
+}
+
+/**
+ * Synchronizes the registered commands with the locally defined ones using as few requests as possible
+ * @param options - Configuration options for the sync
+ * @param options.rest - The REST client used to talk to Discord (e.g. `client.rest`)
+ * @param options.applicationId - The ID of the bot application
+ * @param options.guildId - Sync the commands of this guild instead of the global commands
+ * @param options.commands - A command registry or the command payloads to deploy
+ * @param options.dryRun - Only print the diff without changing anything (default: false)
+ * @param options.logger - Function that receives the printed diff (default: console.log)
+ * @returns {Promise<{ diff: CommandDiff; requests: number }>} - The diff and the number of write requests issued
+ * @description Nothing is sent when the commands are unchanged, a single POST or DELETE is
+ * sent when exactly one command differs, and a single bulk PUT otherwise
+ * @example
+ * // Deploy global commands on startup
+ * client.once('ready', async () => {
+ *   await syncCommands({
+ *     rest: client.rest,
+ *     applicationId: client.application!.id,
+ *     commands: registry
+ *   });
+ * });
+ *
+ * // Preview changes for a test guild
+ * const { diff } = await syncCommands({
+ *   rest,
+ *   applicationId: clientId,
+ *   guildId: testGuildId,
+ *   commands: registry,
+ *   dryRun: true
+ * });
+ */
+export async function syncCommands(options: {
+  rest: CommandRestClient;
+  applicationId: string;
+  guildId?: string;
+  commands: CommandRegistry | RESTPostAPIApplicationCommandsJSONBody[];
+  dryRun?: boolean;
+  logger?: (message: string) => void;
+}): Promise<{ diff: CommandDiff; requests: number }> {
+  const { rest, applicationId, guildId, dryRun = false, logger = console.log } = options;
+  const local = Array.isArray(options.commands) ? options.commands : options.commands.toJSON();
+
+  const collectionRoute = guildId
+    ? Routes.applicationGuildCommands(applicationId, guildId)
+    : Routes.applicationCommands(applicationId);
+  const commandRoute = (commandId: string) => guildId
+    ? Routes.applicationGuildCommand(applicationId, guildId, commandId)
+    : Routes.applicationCommand(applicationId, commandId);
+
+  const remote = await rest.get(collectionRoute) as APIApplicationCommand[];
+  const diff = diffCommands(local, remote);
+  const total = diff.added.length + diff.changed.length + diff.removed.length;
+
+  logger(`${guildId ? `Guild ${guildId}` : 'Global'} commands:\n${formatCommandDiff(diff)}`);
+
+  if (dryRun || total === 0) {
+    return { diff, requests: 0 };
+  }
+
+  if (total > 1) {
+    await rest.put(collectionRoute, { body: local });
+  } else if (diff.removed.length) {
+    await rest.delete(commandRoute(diff.removed[0].id));
+  } else {
+    await rest.post(collectionRoute, { body: diff.added[0] ?? diff.changed[0].local });
+  }
+
+  return { diff, requests: 1 };
+}
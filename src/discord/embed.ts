@@ -1,15 +1,13 @@
 import {
   APIEmbedField,
   ColorResolvable,
-  EmbedBuilder,
-  ActionRowBuilder,
-  ButtonBuilder,
-  ButtonStyle,
-  DMChannel,
-  GuildTextBasedChannel,
-  ComponentType
+  EmbedBuilder
 } from 'discord.js';
 import { ButtonOption } from '../utils/types';
+import { LocaleSource, t } from './i18n';
+import { PageProvider } from './pages';
+import { PaginationTarget, Paginator, PaginatorEndBehavior } from './paginator';
+import { SendQueue } from './queue';
 
 /**
  * Builds a custom embed with the provided options
@@ -86,6 +84,7 @@ export function buildEmbed({
  * @param text - The description text for the embed
  * @param options - Additional configuration options
  * @param options.title - The title of the embed (default: "Success")
+ * @param options.locale - The locale of the default title
  * @param options.footer - Footer text and optional icon
  * @param options.timestamp - Whether to add a timestamp or a specific date
  * @returns {EmbedBuilder} - The constructed success embed
@@ -104,10 +103,10 @@ export function buildEmbed({
  */
 export function buildSuccessEmbed(
   text: string,
-  options: { title?: string; footer?: { text: string; iconURL?: string }; timestamp?: boolean | number | Date } = {}
+  options: { title?: string; footer?: { text: string; iconURL?: string }; timestamp?: boolean | number | Date; locale?: LocaleSource } = {}
 ): EmbedBuilder {
   return buildEmbed({
-    title: options.title || 'Success',
+    title: options.title || t('embed.success', {}, options.locale),
     description: text,
     color: '#00FF00',
     footer: options.footer,
@@ -120,6 +119,7 @@ export function buildSuccessEmbed(
  * @param text - The description text for the embed (error message)
  * @param options - Additional configuration options
  * @param options.title - The title of the embed (default: "Error")
+ * @param options.locale - The locale of the default title
  * @param options.footer - Footer text and optional icon
  * @param options.timestamp - Whether to add a timestamp or a specific date
  * @returns {EmbedBuilder} - The constructed error embed
@@ -138,10 +138,10 @@ export function buildSuccessEmbed(
  */
 export function buildErrorEmbed(
   text: string,
-  options: { title?: string; footer?: { text: string; iconURL?: string }; timestamp?: boolean | number | Date } = {}
+  options: { title?: string; footer?: { text: string; iconURL?: string }; timestamp?: boolean | number | Date; locale?: LocaleSource } = {}
 ): EmbedBuilder {
   return buildEmbed({
-    title: options.title || 'Error',
+    title: options.title || t('embed.error', {}, options.locale),
     description: text,
     color: '#FF0000',
     footer: options.footer,
@@ -258,14 +258,24 @@ export function chunkEmbedFields(fields: APIEmbedField[], max = 25): APIEmbedFie
 
 /**
  * Creates a paginated embed message with navigation buttons
- * @param channel - The channel to send the paginated embed to
- * @param embeds - An array of EmbedBuilders to paginate through
+ * @param target - The channel to send the paginated embed to, or the interaction to reply to
+ * @param embeds - An array of EmbedBuilders to paginate through, or a provider that renders a page by index
  * @param options - Configuration options for the pagination
  * @param options.timeout - Time in ms before buttons are disabled (default: 60000)
  * @param options.startPage - The initial page index to display (default: 0)
  * @param options.userId - If set, only this user can interact with the buttons
  * @param options.buttons - Custom buttons to add to the navigation row
- * @returns {Promise<void>} - Resolves when the collector ends
+ * @param options.locale - The locale of the page indicator (default: the user's or guild's locale)
+ * @param options.ephemeral - Whether the reply is only visible to the interaction's user; ignored for channels
+ * @param options.total - The number of pages a provider can render, if known; the last-page button is disabled until it is
+ * @param options.cacheSize - Maximum number of pages rendered by a provider that are kept in memory (default: 10)
+ * @param options.endBehavior - What happens to the buttons when the paginator ends (default: 'remove')
+ * @param options.queue - Sends the paginator to a channel through a {@link SendQueue}; page turns are not queued
+ * @returns {Promise<void>} - Resolves when the paginator ends
+ * @description A shorthand for a looping {@link Paginator} with first, previous, next and last buttons and the
+ * page indicator in the footer. The embeds are not modified; the footer is set on a copy. Replies to interactions
+ * and renders pages from a provider the same way as {@link sendPaginatedMessage}, with a loading footer while a
+ * page is fetched
  * @example
  * // Create multiple embeds for pages
  * const helpEmbeds = [
@@ -303,69 +313,46 @@ export function chunkEmbedFields(fields: APIEmbedField[], max = 25): APIEmbedFie
  *     }
  *   ]
  * });
+ *
+ * // As the ephemeral reply to a slash command
+ * await sendPaginatedEmbed(interaction, helpEmbeds, { userId: interaction.user.id, ephemeral: true });
+ *
+ * // A leaderboard with a known number of pages, rendered as they are browsed
+ * await sendPaginatedEmbed(interaction, async (index) => {
+ *   const rows = await db.scores.find({ skip: index * 10, take: 10 });
+ *   return buildEmbed({ title: 'Leaderboard', description: formatScores(rows, index * 10) });
+ * }, { total: Math.ceil(await db.scores.count() / 10) });
  */
 export function sendPaginatedEmbed(
-  channel: GuildTextBasedChannel | DMChannel,
-  embeds: EmbedBuilder[],
+  target: PaginationTarget,
+  embeds: EmbedBuilder[] | PageProvider<EmbedBuilder>,
   options?: {
     timeout?: number;
     startPage?: number;
     userId?: string;
     buttons?: ButtonOption[];
+    locale?: LocaleSource;
+    ephemeral?: boolean;
+    total?: number;
+    cacheSize?: number;
+    endBehavior?: PaginatorEndBehavior;
+    queue?: SendQueue;
   }
 ): Promise<void> {
-  return new Promise(async (resolve, reject) => {
-    if (embeds.length === 0) return reject(new Error('No embeds provided'));
-
-    const timeout = options?.timeout ?? 60000;
-    let currentPage = Math.min(options?.startPage ?? 0, embeds.length - 1);
-    const userId = options?.userId;
-
-    const defaultButtons = [
-      { id: 'first', label: '⏮️', style: ButtonStyle.Secondary, callback: () => 0 },
-      { id: 'prev', label: '◀️', style: ButtonStyle.Primary, callback: (page: number) => (page > 0 ? page - 1 : embeds.length - 1) },
-      { id: 'next', label: '▶️', style: ButtonStyle.Primary, callback: (page: number) => (page < embeds.length - 1 ? page + 1 : 0) },
-      { id: 'last', label: '⏭️', style: ButtonStyle.Secondary, callback: () => embeds.length - 1 }
-    ];
-
-    const allButtons = [...defaultButtons, ...(options?.buttons ?? [])];
-    const row = new ActionRowBuilder<ButtonBuilder>().addComponents(
-      allButtons.map(btn =>
-        new ButtonBuilder().setCustomId(btn.id).setLabel(btn.label).setStyle(btn.style)
-      )
-    );
-
-    const message = await channel.send({
-      embeds: [embeds[currentPage].setFooter({ text: `Page ${currentPage + 1}/${embeds.length}` })],
-      components: [row]
-    });
-
-    const collector = message.createMessageComponentCollector({
-      componentType: ComponentType.Button,
-      filter: (interaction) => {
-        if (userId && interaction.user.id !== userId) {
-          interaction.reply({ content: 'You cannot use these buttons.', ephemeral: true });
-          return false;
-        }
-        return allButtons.some(button => button.id === interaction.customId);
-      },
-      time: timeout
-    });
-
-    collector.on('collect', async (interaction) => {
-      const button = allButtons.find(b => b.id === interaction.customId);
-      if (!button) return;
+  if (Array.isArray(embeds) && embeds.length === 0) {
+    return Promise.reject(new Error('No embeds provided'));
+  }
 
-      currentPage = button.callback(currentPage);
-      await interaction.update({
-        embeds: [embeds[currentPage].setFooter({ text: `Page ${currentPage + 1}/${embeds.length}` })],
-        components: [row]
-      });
-    });
+  const paginator = new Paginator(embeds, {
+    ...options,
+    controls: ['first', 'prev', 'next', 'last'],
+    loop: true,
+    footer: true,
+    name: 'sendPaginatedEmbed'
+  });
 
-    collector.on('end', () => {
-      message.edit({ components: [] }).catch(() => {});
-      resolve();
-    });
+  return new Promise((resolve, reject) => {
+    paginator.once('end', () => resolve());
+    paginator.send(target).catch(reject);
   });
 }
@@ -0,0 +1,121 @@
+import { randomBytes } from 'crypto';
+import { CommandInteractionOption, MessageFlags } from 'discord.js';
+import { deferOrReply } from './command';
+import { buildErrorEmbed } from './embed';
+import { GuardInteraction } from './guards';
+import { t } from './i18n';
+
+/**
+ * A structured report of an error thrown by a command handler
+ */
+export interface CommandErrorEvent {
+  /** Short ID shown to the user, to find this report from a user's screenshot */
+  incidentId: string;
+  error: unknown;
+  command: string;
+  /** The options the command was used with, keyed by name; subcommand options are flattened */
+  options: Record<string, string | number | boolean | null>;
+  guildId: string | null;
+  channelId: string | null;
+  userId: string;
+  timestamp: Date;
+}
+
+/**
+ * Receives the reports of failed commands
+ */
+export type CommandErrorListener = (event: CommandErrorEvent) => void | Promise<void>;
+
+const listeners: Set<CommandErrorListener> = new Set();
+
+/**
+ * Generates a short, human-friendly incident ID
+ * @returns {string} - 8 uppercase letters and digits, without look-alike characters
+ * @example
+ * generateIncidentId(); // 'K7XM4QPA'
+ */
+export function generateIncidentId(): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  return [...randomBytes(8)].map(byte => alphabet[byte % alphabet.length]).join('');
+}
+
+function flattenOptions(
+  options: readonly CommandInteractionOption[],
+  result: CommandErrorEvent['options'] = {}
+): CommandErrorEvent['options'] {
+  for (const option of options) {
+    if (option.options) {
+      flattenOptions(option.options, result);
+    } else {
+      result[option.name] = option.value ?? null;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Registers a listener for the reports of failed commands
+ * @param listener - Called with every report produced by {@link handleCommandError}
+ * @returns {() => void} - Removes the listener
+ * @description While no listener is registered, reports are written with `console.error`
+ * @example
+ * onCommandError(({ incidentId, error, command, options, guildId, userId }) => {
+ *   logger.error({ incidentId, command, options, guildId, userId, err: error }, 'Command failed');
+ * });
+ */
+export function onCommandError(listener: CommandErrorListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Reports an error thrown while handling a command and tells the user which incident it was
+ * @param interaction - The command interaction that failed
+ * @param error - The thrown error
+ * @returns {Promise<CommandErrorEvent>} - The report that was emitted
+ * @description {@link CommandRegistry.dispatch} calls this for every handler that throws. Listeners
+ * that throw themselves are ignored so a broken logger cannot hide the original error from the user.
+ * @example
+ * client.on('interactionCreate', async (interaction) => {
+ *   if (!interaction.isChatInputCommand()) return;
+ *
+ *   try {
+ *     await runCommand(interaction);
+ *   } catch (error) {
+ *     await handleCommandError(interaction, error);
+ *   }
+ * });
+ */
+export async function handleCommandError(
+  interaction: GuardInteraction,
+  error: unknown
+): Promise<CommandErrorEvent> {
+  const event: CommandErrorEvent = {
+    incidentId: generateIncidentId(),
+    error,
+    command: interaction.commandName,
+    options: flattenOptions(interaction.options.data),
+    guildId: interaction.guildId,
+    channelId: interaction.channelId,
+    userId: interaction.user.id,
+    timestamp: new Date()
+  };
+
+  const embed = buildErrorEmbed(t('command.error', {}, interaction), {
+    footer: { text: t('command.incident', { incidentId: event.incidentId }, interaction) },
+    locale: interaction
+  });
+
+  await deferOrReply(interaction, { embeds: [embed], flags: MessageFlags.Ephemeral }).catch(() => null);
+
+  if (listeners.size) {
+    await Promise.all([...listeners].map(listener => Promise.resolve().then(() => listener(event)).catch(() => null)));
+  } else {
+    console.error(`Command "${event.command}" failed (incident ${event.incidentId}):`, error);
+  }
+
+  return event;
+}
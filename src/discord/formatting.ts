@@ -1,5 +1,23 @@
 import { escapeMarkdown as djsEscapeMarkdown, Message, User, Role, GuildChannel } from 'discord.js';
 
+/** @internal */
+export const USER_MENTION_PATTERN = /<@!?(\d+)>/g;
+/** @internal */
+export const ROLE_MENTION_PATTERN = /<@&(\d+)>/g;
+/** @internal */
+export const CHANNEL_MENTION_PATTERN = /<#(\d+)>/g;
+/** @internal */
+export const EVERYONE_MENTION_PATTERN = /@(everyone|here)/g;
+
+const DURATION_UNITS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000
+};
+
 /**
  * Sanitizes user input by removing mentions, links, and other potentially malicious content
  * @param input - The user input string to sanitize
@@ -157,6 +175,41 @@ export function formatTimeAgo(timestamp: Date | number, short = false): string {
   return short ? 'now' : 'just now';
 }
 
+/**
+ * Parses a human-readable duration into milliseconds
+ * @param input - A duration such as "90s", "15m", "1h30m", "2d" or "1w"; a bare number is read as seconds
+ * @returns {number | null} - The duration in milliseconds, or null if the input is not a valid duration
+ * @example
+ * parseDuration('1h30m'); // 5400000
+ * parseDuration('45');    // 45000
+ * parseDuration('soon');  // null
+ *
+ * // Mute for a user-provided duration
+ * const duration = parseDuration(args[1]);
+ * if (!duration) {
+ *   return message.reply('Please provide a valid duration, e.g. 10m or 1h.');
+ * }
+ * await member.timeout(duration);
+ */
+export function parseDuration(input: string): number | null {
+  const trimmed = input.trim().toLowerCase();
+
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  if (!/^(\d+(\.\d+)?(ms|s|m|h|d|w))+$/.test(trimmed)) {
+    return null;
+  }
+
+  let total = 0;
+  for (const [, amount, , unit] of trimmed.matchAll(/(\d+(\.\d+)?)(ms|s|m|h|d|w)/g)) {
+    total += parseFloat(amount) * DURATION_UNITS[unit];
+  }
+
+  return Math.round(total);
+}
+
 /**
  * Escapes Discord markdown characters in text
  * @param text - The text to escape markdown in
@@ -298,26 +351,22 @@ export function extractMentions(
   let everyone: string[] = [];
 
   if (includeUsers) {
-    const userMentionRegex = /<@!?(\d+)>/g;
-    const userMatches = Array.from(content.matchAll(userMentionRegex));
+    const userMatches = Array.from(content.matchAll(USER_MENTION_PATTERN));
     users = userMatches.map(match => match[1]); // Extract just the ID
   }
 
   if (includeRoles) {
-    const roleMentionRegex = /<@&(\d+)>/g;
-    const roleMatches = Array.from(content.matchAll(roleMentionRegex));
+    const roleMatches = Array.from(content.matchAll(ROLE_MENTION_PATTERN));
     roles = roleMatches.map(match => match[1]);
   }
 
   if (includeChannels) {
-    const channelMentionRegex = /<#(\d+)>/g;
-    const channelMatches = Array.from(content.matchAll(channelMentionRegex));
+    const channelMatches = Array.from(content.matchAll(CHANNEL_MENTION_PATTERN));
     channels = channelMatches.map(match => match[1]);
   }
 
   if (includeEveryone) {
-    const everyoneMentionRegex = /@(everyone|here)/g;
-    const everyoneMatches = Array.from(content.matchAll(everyoneMentionRegex));
+    const everyoneMatches = Array.from(content.matchAll(EVERYONE_MENTION_PATTERN));
     everyone = everyoneMatches.map(match => match[1]);
   }
 
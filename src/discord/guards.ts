@@ -0,0 +1,228 @@
+import {
+  ChatInputCommandInteraction,
+  GuildMember,
+  MessageContextMenuCommandInteraction,
+  MessageFlags,
+  PermissionResolvable,
+  Role,
+  UserContextMenuCommandInteraction,
+} from 'discord.js';
+import { CooldownManager, cooldownManager, deferOrReply, getInteractionCommandKey } from './command';
+import { t } from './i18n';
+import { checkPermissions, hasAnyRole } from './users';
+
+/**
+ * The command interactions a guard can inspect
+ */
+export type GuardInteraction =
+  | ChatInputCommandInteraction
+  | UserContextMenuCommandInteraction
+  | MessageContextMenuCommandInteraction;
+
+/**
+ * The outcome of a guard: `true` lets the command run, a string stops it and is shown to the user
+ */
+export type GuardResult = true | string;
+
+/**
+ * What a guard requires of the user, so help listings can hide commands the viewer cannot use
+ */
+export interface GuardRequirements {
+  permissions?: PermissionResolvable[];
+  ownerIds?: string[];
+  guildOnly?: boolean;
+}
+
+/**
+ * A check that runs before a command's handler
+ * @example
+ * // A custom guard that only allows commands in a specific channel
+ * const botChannelOnly: CommandGuard = (interaction) =>
+ *   interaction.channelId === '123456789012345678' || 'Please use the bot channel for this command.';
+ */
+export interface CommandGuard {
+  (interaction: GuardInteraction): GuardResult | Promise<GuardResult>;
+  requirements?: GuardRequirements;
+}
+
+function withRequirements(guard: CommandGuard, requirements: GuardRequirements): CommandGuard {
+  guard.requirements = requirements;
+  return guard;
+}
+
+/**
+ * Runs guards in order and replies with the first failure
+ * @param interaction - The command interaction being handled
+ * @param guards - The guards to run
+ * @returns {Promise<boolean>} - True if every guard passed, false if one replied with an error
+ * @example
+ * client.on('interactionCreate', async (interaction) => {
+ *   if (!interaction.isChatInputCommand() || interaction.commandName !== 'purge') return;
+ *
+ *   const allowed = await runGuards(interaction, [
+ *     guildOnly(),
+ *     requirePermissions([PermissionFlagsBits.ManageMessages])
+ *   ]);
+ *
+ *   if (!allowed) return;
+ *   // Purge logic here...
+ * });
+ */
+export async function runGuards(
+  interaction: GuardInteraction,
+  guards: CommandGuard[]
+): Promise<boolean> {
+  for (const guard of guards) {
+    const result = await guard(interaction);
+
+    if (result !== true) {
+      await deferOrReply(interaction, { content: result, flags: MessageFlags.Ephemeral });
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Creates a guard that only allows commands inside a guild
+ * @returns {CommandGuard} - The guard
+ * @example
+ * const kick = defineCommand({ name: 'kick', description: 'Kicks a member', guards: [guildOnly()], execute });
+ */
+export function guildOnly(): CommandGuard {
+  return withRequirements(
+    (interaction) => interaction.inGuild() || t('guard.guildOnly', {}, interaction),
+    { guildOnly: true }
+  );
+}
+
+/**
+ * Creates a guard that only allows commands in direct messages
+ * @returns {CommandGuard} - The guard
+ * @example
+ * const secret = defineCommand({ name: 'secret', description: 'Shows your secret', guards: [dmOnly()], execute });
+ */
+export function dmOnly(): CommandGuard {
+  return (interaction) => !interaction.inGuild() || t('guard.dmOnly', {}, interaction);
+}
+
+/**
+ * Creates a guard that only allows the bot owners to use a command
+ * @param ownerIds - The user IDs of the bot owners
+ * @returns {CommandGuard} - The guard
+ * @example
+ * const evalCommand = defineCommand({
+ *   name: 'eval',
+ *   description: 'Evaluates code',
+ *   guards: [ownerOnly(['123456789012345678'])],
+ *   execute
+ * });
+ */
+export function ownerOnly(ownerIds: string[]): CommandGuard {
+  return withRequirements(
+    (interaction) => ownerIds.includes(interaction.user.id) || t('guard.ownerOnly', {}, interaction),
+    { ownerIds }
+  );
+}
+
+/**
+ * Creates a guard that requires the invoker and/or the bot to hold permissions in the guild
+ * @param permissions - The permissions that are required
+ * @param options - Configuration options for the guard
+ * @param options.user - Whether the invoking member needs the permissions (default: true)
+ * @param options.bot - Whether the bot needs the permissions (default: true)
+ * @returns {CommandGuard} - The guard
+ * @example
+ * const ban = defineCommand({
+ *   name: 'ban',
+ *   description: 'Bans a member',
+ *   guards: [guildOnly(), requirePermissions([PermissionFlagsBits.BanMembers])],
+ *   execute
+ * });
+ */
+export function requirePermissions(
+  permissions: PermissionResolvable[],
+  options: { user?: boolean; bot?: boolean } = {}
+): CommandGuard {
+  const { user = true, bot = true } = options;
+
+  const guard: CommandGuard = (interaction) => {
+    if (!interaction.inCachedGuild()) {
+      return t('guard.guildOnly', {}, interaction);
+    }
+
+    if (user) {
+      const { hasPermission, missing } = checkPermissions(interaction.member, permissions);
+      if (!hasPermission) {
+        return t('guard.userPermissions', { permissions: missing.join(', ') }, interaction);
+      }
+    }
+
+    if (bot) {
+      const { hasPermission, missing } = checkPermissions(interaction.guild.members.me, permissions);
+      if (!hasPermission) {
+        return t('guard.botPermissions', { permissions: missing.join(', ') }, interaction);
+      }
+    }
+
+    return true;
+  };
+
+  return withRequirements(guard, user ? { permissions, guildOnly: true } : { guildOnly: true });
+}
+
+/**
+ * Creates a guard that requires the invoker to have at least one of the given roles
+ * @param roles - Role IDs, names or Role objects
+ * @returns {CommandGuard} - The guard
+ * @example
+ * const warn = defineCommand({
+ *   name: 'warn',
+ *   description: 'Warns a member',
+ *   guards: [requireRoles(['Moderator', 'Admin'])],
+ *   execute
+ * });
+ */
+export function requireRoles(roles: (string | Role)[]): CommandGuard {
+  return (interaction) =>
+    (interaction.member instanceof GuildMember && hasAnyRole(interaction.member, roles)) ||
+    t('guard.roles', {}, interaction);
+}
+
+/**
+ * Creates a guard that only allows commands in age-restricted channels
+ * @returns {CommandGuard} - The guard
+ * @example
+ * const nsfw = defineCommand({ name: 'nsfw', description: 'NSFW content', guards: [nsfwOnly()], execute });
+ */
+export function nsfwOnly(): CommandGuard {
+  return (interaction) => {
+    const channel = interaction.channel;
+    const isNsfw = !!channel && 'nsfw' in channel && channel.nsfw;
+    return isNsfw || t('guard.nsfw', {}, interaction);
+  };
+}
+
+/**
+ * Creates a guard that enforces a cooldown through a {@link CooldownManager}
+ * @param options - Configuration options for the guard
+ * @param options.duration - Per-user cooldown in milliseconds; when omitted the scopes configured for the command are used
+ * @param options.manager - The cooldown manager to use (default: cooldownManager)
+ * @param options.command - The command the cooldown is tracked under (default: the invoked command, see {@link commandKey})
+ * @returns {CommandGuard} - The guard
+ * @example
+ * cooldownManager.configure('daily', { scopes: [{ scope: 'user', duration: 24 * 60 * 60 * 1000 }] });
+ *
+ * const allowed = await runGuards(interaction, [cooldown()]);
+ */
+export function cooldown(
+  options: { duration?: number; manager?: CooldownManager; command?: string } = {}
+): CommandGuard {
+  const { duration, manager = cooldownManager, command } = options;
+
+  return (interaction) => {
+    const { onCooldown, timeLeft } = manager.check(interaction, command ?? getInteractionCommandKey(interaction), duration);
+    return !onCooldown || t('guard.cooldown', { seconds: Math.ceil(timeLeft / 1000) }, interaction);
+  };
+}
@@ -0,0 +1,277 @@
+import {
+  ApplicationCommandOptionType,
+  ColorResolvable,
+  DMChannel,
+  EmbedBuilder,
+  GuildMember,
+  GuildTextBasedChannel,
+  PermissionResolvable,
+  PermissionsBitField,
+  User,
+} from 'discord.js';
+import { buildEmbed, chunkEmbedFields, sendPaginatedEmbed } from './embed';
+import { LocaleSource, t } from './i18n';
+import { CommandRegistry, SlashCommand } from './registry';
+import { checkPermissions } from './users';
+
+/**
+ * Configuration options for the generated help
+ */
+export interface HelpOptions {
+  /** Owners also see commands marked as hidden */
+  ownerIds?: string[];
+  /** Category of commands that do not set one (default: 'General', translated) */
+  defaultCategory?: string;
+  /** Maximum number of commands per page (default: 10) */
+  perPage?: number;
+  /** Title of the overview pages (default: 'Help', translated) */
+  title?: string;
+  color?: ColorResolvable;
+  /** The locale of the help (default: the viewer's guild's preferred locale) */
+  locale?: LocaleSource;
+}
+
+const TIME_UNITS: Array<[string, number]> = [
+  ['d', 24 * 60 * 60 * 1000],
+  ['h', 60 * 60 * 1000],
+  ['m', 60 * 1000],
+  ['s', 1000]
+];
+
+function formatDuration(ms: number): string {
+  const parts: string[] = [];
+  let remaining = ms;
+
+  for (const [unit, size] of TIME_UNITS) {
+    if (remaining >= size) {
+      parts.push(`${Math.floor(remaining / size)}${unit}`);
+      remaining %= size;
+    }
+  }
+
+  return parts.join(' ') || `${ms}ms`;
+}
+
+function formatCooldown(cooldown: NonNullable<SlashCommand['cooldown']>, locale: LocaleSource): string {
+  const scopes = typeof cooldown === 'number' ? [{ scope: 'user', duration: cooldown }] : cooldown.scopes;
+
+  return scopes
+    .map(({ scope, duration }) => t('help.cooldownScope', { duration: formatDuration(duration), scope }, locale))
+    .join(', ');
+}
+
+function resolveHelpLocale(viewer: GuildMember | User, locale?: LocaleSource): LocaleSource {
+  return locale ?? (viewer instanceof GuildMember ? viewer.guild : null);
+}
+
+/**
+ * Collects the permissions a member needs to use a command, from its default permissions and guards
+ */
+function getRequiredPermissions(command: SlashCommand): PermissionResolvable[] {
+  return [
+    ...(command.defaultMemberPermissions ? [command.defaultMemberPermissions] : []),
+    ...(command.guards ?? []).flatMap(guard => guard.requirements?.permissions ?? [])
+  ];
+}
+
+/**
+ * Checks whether a command should be listed for a viewer
+ * @param command - The command to check
+ * @param viewer - The member or user reading the help; users outside a guild only see commands usable in DMs
+ * @param ownerIds - The bot owners, who also see hidden commands
+ * @returns {boolean} - True if the viewer may use the command
+ * @example
+ * const visible = registry.all().filter(command => canViewCommand(command, member, OWNER_IDS));
+ */
+export function canViewCommand(
+  command: SlashCommand,
+  viewer: GuildMember | User,
+  ownerIds: string[] = []
+): boolean {
+  const requirements = (command.guards ?? []).map(guard => guard.requirements ?? {});
+
+  if (command.hidden && !ownerIds.includes(viewer.id)) {
+    return false;
+  }
+
+  if (requirements.some(requirement => requirement.ownerIds && !requirement.ownerIds.includes(viewer.id))) {
+    return false;
+  }
+
+  if (!(viewer instanceof GuildMember)) {
+    return command.dmPermission !== false && !requirements.some(requirement => requirement.guildOnly);
+  }
+
+  const permissions = getRequiredPermissions(command);
+  return !permissions.length || checkPermissions(viewer, permissions).hasPermission;
+}
+
+/**
+ * Formats the usage syntax of a command, with `<required>` and `[optional]` options
+ * @param command - The command to format
+ * @returns {string} - The usage, e.g. `/ban <target> [reason] [days]`
+ * @example
+ * formatCommandUsage(ban); // '/ban <target> [reason] [days]'
+ */
+export function formatCommandUsage(command: SlashCommand): string {
+  const options = Object.entries(command.options ?? {});
+  const required = options.filter(([, definition]) => definition.required).map(([name]) => `<${name}>`);
+  const optional = options.filter(([, definition]) => !definition.required).map(([name]) => `[${name}]`);
+
+  return [`/${command.name}`, ...required, ...optional].join(' ');
+}
+
+/**
+ * Builds the detail view of a single command
+ * @param command - The command to describe
+ * @param options - Configuration options for the embed
+ * @param options.color - The embed color
+ * @param options.locale - The locale of the embed's labels
+ * @returns {EmbedBuilder} - An embed with the usage, options, cooldown and required permissions
+ * @example
+ * const command = registry.get(interaction.options.getString('command', true));
+ * if (command) {
+ *   await interaction.reply({ embeds: [buildCommandHelpEmbed(command)] });
+ * }
+ */
+export function buildCommandHelpEmbed(
+  command: SlashCommand,
+  options: { color?: ColorResolvable; locale?: LocaleSource } = {}
+): EmbedBuilder {
+  const { locale } = options;
+  const fields = [{ name: t('help.usage', {}, locale), value: `\`${formatCommandUsage(command)}\`` }];
+  const commandOptions = Object.entries(command.options ?? {});
+
+  if (commandOptions.length) {
+    fields.push({
+      name: t('help.options', {}, locale),
+      value: commandOptions.map(([name, definition]) => {
+        const type = ApplicationCommandOptionType[definition.type].toLowerCase();
+        const choices = definition.choices ? ` (${definition.choices.map(choice => choice.name).join(', ')})` : '';
+        return `\`${name}\` (${type}${definition.required ? `, ${t('help.required', {}, locale)}` : ''}) - ${definition.description}${choices}`;
+      }).join('\n')
+    });
+  }
+
+  if (command.cooldown !== undefined) {
+    fields.push({ name: t('help.cooldown', {}, locale), value: formatCooldown(command.cooldown, locale) });
+  }
+
+  const permissions = getRequiredPermissions(command);
+  if (permissions.length) {
+    fields.push({ name: t('help.permissions', {}, locale), value: new PermissionsBitField(permissions).toArray().join(', ') });
+  }
+
+  return buildEmbed({
+    title: `/${command.name}`,
+    description: command.description,
+    color: options.color,
+    fields
+  });
+}
+
+/**
+ * Builds the overview pages of the commands a viewer can use, grouped by category
+ * @param registry - The registry to read the commands from
+ * @param viewer - The member or user reading the help
+ * @param options - Configuration options for the help
+ * @returns {EmbedBuilder[]} - One or more pages per category, ready for {@link sendPaginatedEmbed}
+ * @example
+ * const viewer = interaction.inCachedGuild() ? interaction.member : interaction.user;
+ * const pages = buildHelpEmbeds(registry, viewer, { ownerIds: OWNER_IDS });
+ */
+export function buildHelpEmbeds(
+  registry: CommandRegistry,
+  viewer: GuildMember | User,
+  options: HelpOptions = {}
+): EmbedBuilder[] {
+  const locale = resolveHelpLocale(viewer, options.locale);
+  const {
+    ownerIds = [],
+    defaultCategory = t('help.defaultCategory', {}, locale),
+    perPage = 10,
+    title = t('help.title', {}, locale),
+    color
+  } = options;
+  const categories = new Map<string, SlashCommand[]>();
+
+  for (const command of registry.all()) {
+    if (!canViewCommand(command, viewer, ownerIds)) {
+      continue;
+    }
+
+    const category = command.category ?? defaultCategory;
+    categories.set(category, [...categories.get(category) ?? [], command]);
+  }
+
+  if (!categories.size) {
+    return [buildEmbed({ title, description: t('help.empty', {}, locale), color })];
+  }
+
+  return [...categories].flatMap(([category, commands]) => {
+    const fields = commands.map(command => ({ name: formatCommandUsage(command), value: command.description }));
+
+    return chunkEmbedFields(fields, perPage).map(page => buildEmbed({
+      title: `${title}: ${category}`,
+      color,
+      fields: page
+    }));
+  });
+}
+
+/**
+ * Sends the help for a viewer: the paginated overview, or the detail view of one command
+ * @param channel - The channel to send the help to
+ * @param registry - The registry to read the commands from
+ * @param viewer - The member or user reading the help; only they can turn the pages
+ * @param options - Configuration options for the help
+ * @param options.command - Show the detail view of this command instead of the overview
+ * @param options.timeout - Time in ms before the page buttons are disabled (default: 60000)
+ * @returns {Promise<void>} - Resolves once the help was sent and, for several pages, the buttons expired
+ * @example
+ * const help = defineCommand({
+ *   name: 'help',
+ *   description: 'Lists the available commands',
+ *   options: {
+ *     command: option.string({ description: 'Show details for one command' })
+ *   },
+ *   execute: async (interaction, { command }) => {
+ *     await interaction.reply({ content: 'Here you go!', flags: MessageFlags.Ephemeral });
+ *     const viewer = interaction.inCachedGuild() ? interaction.member : interaction.user;
+ *     await sendHelp(interaction.channel!, registry, viewer, {
+ *       command: command ?? undefined,
+ *       ownerIds: OWNER_IDS
+ *     });
+ *   }
+ * });
+ */
+export async function sendHelp(
+  channel: GuildTextBasedChannel | DMChannel,
+  registry: CommandRegistry,
+  viewer: GuildMember | User,
+  options: HelpOptions & { command?: string; timeout?: number } = {}
+): Promise<void> {
+  const locale = resolveHelpLocale(viewer, options.locale);
+
+  if (options.command) {
+    const command = registry.get(options.command.replace(/^\//, '').toLowerCase());
+
+    if (!command || !canViewCommand(command, viewer, options.ownerIds)) {
+      const description = t('help.unknownCommand', { name: options.command }, locale);
+      await channel.send({ embeds: [buildEmbed({ description, color: options.color })] });
+      return;
+    }
+
+    await channel.send({ embeds: [buildCommandHelpEmbed(command, { color: options.color, locale })] });
+    return;
+  }
+
+  const pages = buildHelpEmbeds(registry, viewer, options);
+
+  if (pages.length === 1) {
+    await channel.send({ embeds: pages });
+    return;
+  }
+
+  await sendPaginatedEmbed(channel, pages, { timeout: options.timeout, userId: viewer.id, locale });
+}
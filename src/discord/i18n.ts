@@ -0,0 +1,317 @@
+/**
+ * Messages keyed by ID, written in a subset of ICU MessageFormat:
+ * `{name}` arguments, `{count, plural, one {# item} other {# items}}` and `{kind, select, a {...} other {...}}`
+ */
+export type MessageCatalog = Record<string, string>;
+
+/**
+ * Where a locale is read from: a locale string, an interaction (its `locale`, then `guildLocale`)
+ * or a guild (its `preferredLocale`)
+ */
+export type LocaleSource =
+  | string
+  | { locale?: string | null; guildLocale?: string | null; preferredLocale?: string | null }
+  | null
+  | undefined;
+
+/**
+ * The English messages of the library's built-in strings, which can be overridden per locale
+ */
+export const DEFAULT_MESSAGES: MessageCatalog = {
+  'paginator.unauthorized': 'You are not authorized to interact with these controls.',
+  'paginator.page': 'Page {page}/{total}',
+  'paginator.loading': 'Loading…',
+  'paginator.jump': 'Go to page',
+  'paginator.jumpLabel': '{total, select, unknown {Page number} other {Page number (1-{total})}}',
+  'paginator.invalidPage': 'There is no page "{page}".',
+  'paginator.selectPage': 'Jump to a page',
+  'paginator.unavailable': 'This page is no longer available.',
+  'embed.success': 'Success',
+  'embed.error': 'Error',
+  'confirm.confirm': '✅ Confirm',
+  'confirm.cancel': '❌ Cancel',
+  'guard.guildOnly': 'This command can only be used in a server.',
+  'guard.dmOnly': 'This command can only be used in direct messages.',
+  'guard.ownerOnly': 'This command can only be used by the bot owner.',
+  'guard.userPermissions': 'You are missing the following permissions: {permissions}.',
+  'guard.botPermissions': 'I am missing the following permissions: {permissions}.',
+  'guard.roles': 'You do not have the required role to use this command.',
+  'guard.nsfw': 'This command can only be used in age-restricted channels.',
+  'guard.cooldown': 'You can use this command again in {seconds, plural, one {# second} other {# seconds}}.',
+  'command.error': 'Something went wrong while running this command.',
+  'command.incident': 'Incident ID: {incidentId}',
+  'command.invalidOption': 'Invalid option',
+  'lock.running': 'This command is already running. Please wait for it to finish.',
+  'lock.cancelled': 'This run of the command was cancelled.',
+  'lock.timeout': 'This command took too long and was stopped.',
+  'option.missing': 'Missing required option "{name}".',
+  'option.notMember': 'The user given for "{name}" is not a member of this server.',
+  'option.invalidChoice': '"{value}" is not a valid choice for "{name}".',
+  'option.minLength': '"{name}" must be at least {min, plural, one {# character} other {# characters}} long.',
+  'option.maxLength': '"{name}" must be at most {max, plural, one {# character} other {# characters}} long.',
+  'option.integer': '"{name}" must be a whole number.',
+  'option.min': '"{name}" must be at least {min}.',
+  'option.max': '"{name}" must be at most {max}.',
+  'option.channelType': 'The channel given for "{name}" is not of an allowed type.',
+  'help.title': 'Help',
+  'help.defaultCategory': 'General',
+  'help.empty': 'There are no commands you can use here.',
+  'help.unknownCommand': 'There is no command named `{name}`.',
+  'help.usage': 'Usage',
+  'help.options': 'Options',
+  'help.required': 'required',
+  'help.cooldown': 'Cooldown',
+  'help.cooldownScope': '{duration} {scope, select, global {globally} other {per {scope}}}',
+  'help.permissions': 'Required permissions',
+  'parser.unterminatedQuote': 'Unterminated quote in command arguments.',
+  'parser.invalidNumber': '"{value}" is not a valid number for "{name}".',
+  'parser.invalidInteger': '"{value}" is not a valid whole number for "{name}".',
+  'parser.invalidBoolean': '"{value}" is not a valid yes/no value for "{name}".',
+  'parser.invalidDuration': '"{value}" is not a valid duration for "{name}" (try 10m or 1h30m).',
+  'parser.invalidMention': '"{value}" is not a valid {type, select, user {user} role {role} other {channel}} for "{name}".',
+  'parser.unknownFlag': 'Unknown flag "{flag}".',
+  'parser.flagValue': 'Flag "{flag}" expects a value.',
+  'parser.missingArgument': 'Missing required argument "{name}".',
+  'parser.unexpectedArgument': 'Unexpected argument "{value}".'
+};
+
+type Params = Record<string, string | number | boolean | null | undefined>;
+
+function findClosingBrace(pattern: string, start: number): number {
+  let depth = 0;
+
+  for (let index = start; index < pattern.length; index++) {
+    if (pattern[index] === '{') depth++;
+    if (pattern[index] === '}' && --depth === 0) return index;
+  }
+
+  return -1;
+}
+
+/**
+ * Parses the `key {message} key {message}` branches of a plural or select argument
+ */
+function parseBranches(body: string): Record<string, string> {
+  const branches: Record<string, string> = {};
+  let index = 0;
+
+  while (index < body.length) {
+    const open = body.indexOf('{', index);
+    if (open === -1) break;
+
+    const close = findClosingBrace(body, open);
+    if (close === -1) break;
+
+    branches[body.slice(index, open).trim()] = body.slice(open + 1, close);
+    index = close + 1;
+  }
+
+  return branches;
+}
+
+function selectPluralCategory(value: number, locale: string): string {
+  try {
+    return new Intl.PluralRules(locale).select(value);
+  } catch {
+    return new Intl.PluralRules('en').select(value);
+  }
+}
+
+function formatArgument(body: string, params: Params, locale: string): string {
+  const [name, type, ...rest] = body.split(',');
+  const key = name.trim();
+  const value = params[key];
+
+  if (type === undefined) {
+    return value === undefined || value === null ? `{${key}}` : String(value);
+  }
+
+  const branches = parseBranches(rest.join(','));
+
+  switch (type.trim()) {
+    case 'plural': {
+      const count = Number(value);
+      const branch = branches[`=${count}`] ?? branches[selectPluralCategory(count, locale)] ?? branches.other ?? '';
+      return formatPattern(branch, params, locale, String(count));
+    }
+    case 'select':
+      return formatPattern(branches[String(value)] ?? branches.other ?? '', params, locale);
+    default:
+      return value === undefined || value === null ? `{${key}}` : String(value);
+  }
+}
+
+function formatPattern(pattern: string, params: Params, locale: string, pluralValue?: string): string {
+  let result = '';
+  let index = 0;
+
+  while (index < pattern.length) {
+    const character = pattern[index];
+
+    if (character === '#' && pluralValue !== undefined) {
+      result += pluralValue;
+      index++;
+      continue;
+    }
+
+    if (character !== '{') {
+      result += character;
+      index++;
+      continue;
+    }
+
+    const close = findClosingBrace(pattern, index);
+    if (close === -1) {
+      result += pattern.slice(index);
+      break;
+    }
+
+    result += formatArgument(pattern.slice(index + 1, close), params, locale);
+    index = close + 1;
+  }
+
+  return result;
+}
+
+/**
+ * Formats a message written in the ICU subset described by {@link MessageCatalog}
+ * @param pattern - The message pattern
+ * @param params - The values of the arguments
+ * @param locale - The locale used to pick plural forms (default: 'en-US')
+ * @returns {string} - The formatted message; unknown arguments are left as `{name}`
+ * @example
+ * formatMessage('{count, plural, =0 {No warnings} one {# warning} other {# warnings}} for {user}', {
+ *   count: 3,
+ *   user: 'Alice'
+ * });
+ * // '3 warnings for Alice'
+ */
+export function formatMessage(pattern: string, params: Params = {}, locale = 'en-US'): string {
+  return formatPattern(pattern, params, locale);
+}
+
+/**
+ * Looks up messages across locales, falling back from regional to base language to the default locale
+ * @class
+ * @example
+ * const translator = new Translator({ defaultLocale: 'en-US', fallbacks: { 'pt-BR': ['pt-PT'] } })
+ *   .addMessages('en-US', { greeting: 'Hello {name}!' })
+ *   .addMessages('de', { greeting: 'Hallo {name}!' });
+ *
+ * translator.translate('greeting', { name: 'Alice' }, 'de'); // 'Hallo Alice!'
+ * translator.translate('greeting', { name: 'Alice' }, interaction); // Uses the user's, then the guild's locale
+ */
+export class Translator {
+  private readonly catalogs: Map<string, MessageCatalog> = new Map();
+  private readonly defaultLocale: string;
+  private readonly fallbacks: Record<string, string[]>;
+
+  /**
+   * @param options - Configuration options for the translator
+   * @param options.defaultLocale - The locale used when no other locale has a message (default: 'en-US')
+   * @param options.fallbacks - Extra locales to try after a locale, keyed by locale
+   * @param options.messages - Initial catalogs keyed by locale
+   */
+  constructor(options: {
+    defaultLocale?: string;
+    fallbacks?: Record<string, string[]>;
+    messages?: Record<string, MessageCatalog>;
+  } = {}) {
+    this.defaultLocale = options.defaultLocale ?? 'en-US';
+    this.fallbacks = options.fallbacks ?? {};
+
+    for (const [locale, messages] of Object.entries(options.messages ?? {})) {
+      this.addMessages(locale, messages);
+    }
+  }
+
+  /**
+   * Adds messages to a locale, replacing messages with the same keys
+   * @param locale - The locale, e.g. 'de' or 'es-ES'
+   * @param messages - The messages keyed by ID
+   * @returns {this} - The translator, for chaining
+   */
+  public addMessages(locale: string, messages: MessageCatalog): this {
+    this.catalogs.set(locale, { ...this.catalogs.get(locale), ...messages });
+    return this;
+  }
+
+  /**
+   * Lists the locales tried for a source, in order
+   * @param source - A locale, interaction or guild
+   * @returns {string[]} - The locales, each followed by its base language and configured fallbacks, then the default locale
+   * @example
+   * translator.resolveLocales({ locale: 'pt-BR', guildLocale: 'es-ES' });
+   * // ['pt-BR', 'pt', 'es-ES', 'es', 'en-US', 'en']
+   */
+  public resolveLocales(source?: LocaleSource): string[] {
+    const requested = typeof source === 'string'
+      ? [source]
+      : [source?.locale, source?.guildLocale, source?.preferredLocale];
+
+    const chain: string[] = [];
+    const add = (locale: string) => {
+      const candidates = [...new Set([locale, locale.split('-')[0]])].filter(candidate => !chain.includes(candidate));
+
+      // A locale is followed by its base language first, then by the fallbacks of both
+      chain.push(...candidates);
+      for (const candidate of candidates) {
+        this.fallbacks[candidate]?.forEach(add);
+      }
+    };
+
+    for (const locale of requested) {
+      if (locale) add(locale);
+    }
+
+    add(this.defaultLocale);
+    return chain;
+  }
+
+  /**
+   * Formats the message with the given key in the best available locale
+   * @param key - The message ID
+   * @param params - The values of the message arguments
+   * @param source - A locale, interaction or guild to pick the locale from
+   * @returns {string} - The formatted message, or the key itself when no locale has it
+   */
+  public translate(key: string, params: Params = {}, source?: LocaleSource): string {
+    for (const locale of this.resolveLocales(source)) {
+      const message = this.catalogs.get(locale)?.[key];
+
+      if (message !== undefined) {
+        return formatPattern(message, params, locale);
+      }
+    }
+
+    return key;
+  }
+}
+
+/**
+ * The translator used for the library's built-in strings; add catalogs to it to translate or override them
+ * @example
+ * i18n.addMessages('de', {
+ *   'paginator.page': 'Seite {page}/{total}',
+ *   'confirm.confirm': '✅ Bestätigen',
+ *   'confirm.cancel': '❌ Abbrechen',
+ *   'guard.cooldown': 'Du kannst diesen Befehl in {seconds, plural, one {# Sekunde} other {# Sekunden}} wieder benutzen.'
+ * });
+ *
+ * // Override an English string
+ * i18n.addMessages('en-US', { 'embed.success': 'Done!' });
+ */
+export const i18n = new Translator({ messages: { 'en-US': DEFAULT_MESSAGES } });
+
+/**
+ * Formats a message from the {@link i18n} translator
+ * @param key - The message ID
+ * @param params - The values of the message arguments
+ * @param source - A locale, interaction or guild to pick the locale from
+ * @returns {string} - The formatted message
+ * @example
+ * await interaction.reply(t('greeting', { name: interaction.user.username }, interaction));
+ */
+export function t(key: string, params: Params = {}, source?: LocaleSource): string {
+  return i18n.translate(key, params, source);
+}
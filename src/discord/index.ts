@@ -7,6 +7,57 @@ export * from './interaction';
 // Command Utilities
 export * from './command';
 
+// Command Registry Utilities
+export * from './registry';
+
+// Command Error Utilities
+export * from './errors';
+
+// Command Guard Utilities
+export * from './guards';
+
+// Context Menu Command Utilities
+export * from './contextmenu';
+
+// Command Option Utilities
+export * from './options';
+
+// Autocomplete Utilities
+export * from './autocomplete';
+
+// Command Deployment Utilities
+export * from './deploy';
+
+// Help Utilities
+export * from './help';
+
+// Text Command Utilities
+export * from './parser';
+
+// Rate Limit Utilities
+export * from './ratelimit';
+
+// Command Lock Utilities
+export * from './locks';
+
+// Page Source Utilities
+export * from './pages';
+
+// Paginator Utilities
+export * from './paginator';
+
+// Send Queue Utilities
+export * from './queue';
+
+// Metrics Utilities
+export * from './metrics';
+
+// Localization Utilities
+export * from './i18n';
+
+// Storage Utilities
+export * from './storage';
+
 // Data Utilities
 export * from './data';
 
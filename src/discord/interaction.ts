@@ -22,6 +22,7 @@ import {
   TextInputBuilder,
   TextInputStyle
 } from 'discord.js';
+import { LocaleSource, t } from './i18n';
 
 const DEFAULT_TIMEOUT = 60000;
 
@@ -31,15 +32,15 @@ function isSendableChannel(
   return typeof channel === 'object' && channel !== null && 'send' in channel && typeof (channel as any).send === 'function';
 }
 
-function createConfirmButtons(): ActionRowBuilder<ButtonBuilder> {
+function createConfirmButtons(locale?: LocaleSource): ActionRowBuilder<ButtonBuilder> {
   return new ActionRowBuilder<ButtonBuilder>().addComponents(
     new ButtonBuilder()
       .setCustomId('confirm')
-      .setLabel('✅ Confirm')
+      .setLabel(t('confirm.confirm', {}, locale))
       .setStyle(ButtonStyle.Success),
     new ButtonBuilder()
       .setCustomId('cancel')
-      .setLabel('❌ Cancel')
+      .setLabel(t('confirm.cancel', {}, locale))
       .setStyle(ButtonStyle.Danger)
   );
 }
@@ -178,6 +179,8 @@ export function waitSelectMenu(
  * Displays confirm/cancel buttons and waits for user choice
  * @param user - The user who can interact with the buttons
  * @param message - Either a Message object or an object containing channel and content
+ * @param options - Configuration options for the confirmation
+ * @param options.locale - The locale of the button labels (default: the guild's preferred locale)
  * @returns {Promise<boolean>} - True if confirmed, false if canceled or timed out
  * @example
  * // Using with a channel and content
@@ -205,7 +208,8 @@ export function waitSelectMenu(
  */
 export async function interactiveConfirm(
   user: User,
-  message: Message | { channel: TextChannel | DMChannel | NewsChannel | ThreadChannel; content: string; embeds?: unknown[] }
+  message: Message | { channel: TextChannel | DMChannel | NewsChannel | ThreadChannel; content: string; embeds?: unknown[] },
+  options: { locale?: LocaleSource } = {}
 ): Promise<boolean> {
   const channel = message instanceof Message
     ? message.channel
@@ -226,7 +230,7 @@ export async function interactiveConfirm(
   const sentMessage = await channel.send({
     content,
     embeds,
-    components: [createConfirmButtons()]
+    components: [createConfirmButtons(options.locale ?? ('guild' in channel ? channel.guild : null))]
   });
 
   try {
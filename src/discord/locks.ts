@@ -0,0 +1,304 @@
+import { MessageFlags } from 'discord.js';
+import {
+  commandKey,
+  CooldownScope,
+  CooldownTarget,
+  deferOrReply,
+  getCooldownKey,
+  resolveCooldownContext,
+} from './command';
+import { GuardInteraction } from './guards';
+import { t } from './i18n';
+
+/**
+ * What happens when a command is used while a previous run still holds its lock
+ * - `reject`: the new run is refused
+ * - `queue`: the new run waits until the previous runs have finished
+ * - `cancel-previous`: the previous run is aborted and the new run starts right away
+ */
+export type LockPolicy = 'reject' | 'queue' | 'cancel-previous';
+
+/**
+ * Per-command lock configuration
+ */
+export interface CommandLockOptions {
+  /** The bucket the lock is shared across (default: 'user') */
+  scope?: CooldownScope;
+  /** What to do when the lock is already held (default: 'reject') */
+  policy?: LockPolicy;
+  /** Time in ms after which a held lock is aborted and released (default: 15 minutes) */
+  timeout?: number;
+}
+
+/**
+ * A held lock; its signal aborts when the run is cancelled or times out
+ */
+export interface CommandLock {
+  /** The lock key, or null when the invoker could not be keyed on the scope and nothing was locked */
+  readonly key: string | null;
+  readonly signal: AbortSignal;
+  /** Releases the lock and lets the next queued run start; calling it more than once has no effect */
+  release(): void;
+}
+
+/**
+ * The reason a lock's signal was aborted
+ * @class
+ * @example
+ * try {
+ *   await exportMessages(channel, { signal });
+ * } catch (error) {
+ *   if (error instanceof LockAbortedError && error.reason === 'timeout') {
+ *     await deferOrReply(interaction, 'The export took too long and was stopped.');
+ *   }
+ * }
+ */
+export class LockAbortedError extends Error {
+  /**
+   * @param reason - 'cancelled' when a newer run or {@link LockManager.release} took the lock, 'timeout' when it expired
+   */
+  constructor(public readonly reason: 'cancelled' | 'timeout') {
+    super(reason === 'timeout' ? 'The command lock timed out' : 'The command lock was cancelled');
+    this.name = 'LockAbortedError';
+  }
+}
+
+interface LockEntry {
+  controller: AbortController;
+  timer: NodeJS.Timeout;
+  timeout: number;
+  waiters: Array<(lock: CommandLock) => void>;
+}
+
+const DEFAULT_TIMEOUT = 15 * 60 * 1000;
+
+/**
+ * Keeps commands from running more than once at a time per user, guild, channel, role or globally
+ * @class
+ * @description Shares the keying model of {@link CooldownManager}. A lock is held from the start of a
+ * run until it is released, and is force-released after its timeout so a stuck handler cannot keep it forever.
+ * @example
+ * lockManager.configure('export', { policy: 'reject' });
+ *
+ * const lock = await lockManager.acquire(interaction, 'export');
+ * if (!lock) {
+ *   return interaction.reply('Your export is already running.');
+ * }
+ *
+ * try {
+ *   await exportMessages(interaction.channel, { signal: lock.signal });
+ * } finally {
+ *   lock.release();
+ * }
+ */
+export class LockManager {
+  private readonly commands: Map<string, CommandLockOptions> = new Map();
+  private readonly locks: Map<string, LockEntry> = new Map();
+
+  /**
+   * Configures the lock of a command
+   * @param command - The command identifier (see {@link commandKey})
+   * @param options - The lock configuration
+   * @param options.scope - The bucket the lock is shared across (default: 'user')
+   * @param options.policy - What to do when the lock is already held (default: 'reject')
+   * @param options.timeout - Time in ms after which a held lock is aborted and released (default: 15 minutes)
+   * @returns {this} - The manager, for chaining
+   * @example
+   * // One role sync per guild at a time; later requests wait their turn
+   * lockManager.configure('syncroles', { scope: 'guild', policy: 'queue', timeout: 5 * 60 * 1000 });
+   */
+  public configure(command: string, options: CommandLockOptions): this {
+    if (options.timeout !== undefined && options.timeout <= 0) {
+      throw new Error('Lock timeout must be greater than 0');
+    }
+
+    this.commands.set(commandKey(command), options);
+    return this;
+  }
+
+  /**
+   * Acquires the lock of a command according to its policy
+   * @param target - An interaction, message or cooldown context
+   * @param command - The command identifier (see {@link commandKey})
+   * @param options - Configuration options for the acquisition
+   * @param options.onQueued - Called when the run has to wait for the lock, e.g. to defer the interaction; if it throws,
+   * the run leaves the queue and the error is rethrown
+   * @returns {Promise<CommandLock | null>} - The lock, or null if the policy is 'reject' and the lock is held
+   * @example
+   * const lock = await lockManager.acquire(interaction, 'syncroles', {
+   *   onQueued: () => interaction.deferReply()
+   * });
+   */
+  public async acquire(
+    target: CooldownTarget,
+    command: string,
+    options: { onQueued?: () => unknown } = {}
+  ): Promise<CommandLock | null> {
+    command = commandKey(command);
+    const { scope = 'user', policy = 'reject', timeout = DEFAULT_TIMEOUT } = this.commands.get(command) ?? {};
+    const key = getCooldownKey(command, scope, resolveCooldownContext(target));
+
+    // Contexts that cannot be keyed on the scope (e.g. guild scope in DMs) are never locked
+    if (!key) {
+      return { key: null, signal: new AbortController().signal, release: () => undefined };
+    }
+
+    const held = this.locks.get(key);
+
+    if (!held) {
+      return this.take(key, timeout);
+    }
+
+    switch (policy) {
+      case 'reject':
+        return null;
+      case 'cancel-previous':
+        clearTimeout(held.timer);
+        held.controller.abort(new LockAbortedError('cancelled'));
+        return this.take(key, timeout, held.waiters);
+      case 'queue': {
+        let waiter!: (lock: CommandLock) => void;
+        const lock = new Promise<CommandLock>(resolve => {
+          waiter = resolve;
+        });
+
+        held.waiters.push(waiter);
+
+        try {
+          await options.onQueued?.();
+        } catch (error) {
+          this.withdraw(key, waiter, lock);
+          throw error;
+        }
+
+        return lock;
+      }
+    }
+  }
+
+  /**
+   * Checks whether a command's lock is held for an invoker
+   * @param target - An interaction, message or cooldown context
+   * @param command - The command identifier (see {@link commandKey})
+   * @returns {boolean} - True if a run holds the lock
+   */
+  public isLocked(target: CooldownTarget, command: string): boolean {
+    command = commandKey(command);
+    const key = getCooldownKey(command, this.commands.get(command)?.scope ?? 'user', resolveCooldownContext(target));
+    return !!key && this.locks.has(key);
+  }
+
+  /**
+   * Aborts the run holding a command's lock for an invoker and releases the lock
+   * @param target - An interaction, message or cooldown context
+   * @param command - The command identifier (see {@link commandKey})
+   * @description Queued runs are not cancelled; the next one starts
+   * @example
+   * // Let an owner unstick a user's export
+   * lockManager.release({ userId: '123456789012345678' }, 'export');
+   */
+  public release(target: CooldownTarget, command: string): void {
+    command = commandKey(command);
+    const key = getCooldownKey(command, this.commands.get(command)?.scope ?? 'user', resolveCooldownContext(target));
+    const held = key ? this.locks.get(key) : undefined;
+
+    if (key && held) {
+      held.controller.abort(new LockAbortedError('cancelled'));
+      this.handOver(key, held);
+    }
+  }
+
+  private take(key: string, timeout: number, waiters: LockEntry['waiters'] = []): CommandLock {
+    const controller = new AbortController();
+    const entry: LockEntry = {
+      controller,
+      timeout,
+      waiters,
+      timer: setTimeout(() => {
+        controller.abort(new LockAbortedError('timeout'));
+        this.handOver(key, entry);
+      }, timeout)
+    };
+
+    // A lock nobody releases must not keep the process alive
+    entry.timer.unref();
+    this.locks.set(key, entry);
+
+    return {
+      key,
+      signal: controller.signal,
+      release: () => this.handOver(key, entry)
+    };
+  }
+
+  /**
+   * Removes a queued run that gave up waiting, releasing the lock instead if it was already handed to it
+   */
+  private withdraw(key: string, waiter: LockEntry['waiters'][number], lock: Promise<CommandLock>): void {
+    // Queued runs move along with the lock, so they are always waiting on its current holder
+    const waiters = this.locks.get(key)?.waiters ?? [];
+    const index = waiters.indexOf(waiter);
+
+    if (index !== -1) {
+      waiters.splice(index, 1);
+    } else {
+      lock.then(handed => handed.release());
+    }
+  }
+
+  /**
+   * Passes the lock to the next queued run, or frees it if nobody is waiting
+   */
+  private handOver(key: string, entry: LockEntry): void {
+    // A lock that was already released, timed out or taken over must not free its successor
+    if (this.locks.get(key) !== entry) {
+      return;
+    }
+
+    clearTimeout(entry.timer);
+    this.locks.delete(key);
+
+    const [next, ...waiters] = entry.waiters;
+    if (next) {
+      next(this.take(key, entry.timeout, waiters));
+    }
+  }
+}
+
+// Singleton instance for command locks
+export const lockManager = new LockManager();
+
+/**
+ * Acquires a command's lock for an interaction and keeps the user informed
+ * @param interaction - The command interaction being handled
+ * @param command - The command identifier (see {@link commandKey})
+ * @param manager - The lock manager (default: lockManager)
+ * @returns {Promise<CommandLock | null>} - The lock, or null if the command is already running and the user was told so
+ * @description Replies with an ephemeral "already running" message through {@link deferOrReply} when the
+ * lock is rejected, and defers the interaction while a queued run waits so its token does not expire
+ * @example
+ * const lock = await acquireCommandLock(interaction, 'export');
+ * if (!lock) return;
+ *
+ * try {
+ *   await exportMessages(interaction.channel, { signal: lock.signal });
+ *   await deferOrReply(interaction, 'Export finished!');
+ * } finally {
+ *   lock.release();
+ * }
+ */
+export async function acquireCommandLock(
+  interaction: GuardInteraction,
+  command: string,
+  manager: LockManager = lockManager
+): Promise<CommandLock | null> {
+  const lock = await manager.acquire(interaction, command, {
+    onQueued: () => deferOrReply(interaction, '')
+  });
+
+  if (!lock) {
+    await deferOrReply(interaction, { content: t('lock.running', {}, interaction), flags: MessageFlags.Ephemeral });
+  }
+
+  return lock;
+}
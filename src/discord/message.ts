@@ -7,109 +7,40 @@ import {
   MessageCreateOptions,
   MessagePayload,
   CollectorFilter,
-  MessageComponentInteraction,
-  MessageEditOptions,
-  ButtonStyle,
   User,
   MessageReaction,
 } from 'discord.js';
 import { ButtonOption } from '../utils/types';
-
-function buildComponents(
-  pageIndex: number,
-  total: number,
-  buttons?: ButtonOption[]
-) {
-  const defaultButtons = [
-    {
-      type: 2,
-      style: ButtonStyle.Primary,
-      label: '◀️',
-      custom_id: 'prev',
-      disabled: pageIndex === 0
-    },
-    {
-      type: 2,
-      style: ButtonStyle.Secondary,
-      label: `${pageIndex + 1}/${total}`,
-      custom_id: 'page',
-      disabled: true
-    },
-    {
-      type: 2,
-      style: ButtonStyle.Primary,
-      label: '▶️',
-      custom_id: 'next',
-      disabled: pageIndex === total - 1
-    }
-  ];
-
-  const extra = (buttons ?? []).map((btn) => ({
-    type: 2,
-    style: btn.style,
-    label: btn.label,
-    custom_id: btn.id,
-    disabled: false
-  }));
-
-  return [
-    {
-      type: 1,
-      components: [...defaultButtons, ...extra]
-    }
-  ];
-}
-
-function createMessageOptions(
-  page: string | MessageCreateOptions,
-  pageIndex: number,
-  total: number,
-  buttons?: ButtonOption[]
-): MessageCreateOptions {
-  if (typeof page === 'string') {
-    return {
-      content: page,
-      components: buildComponents(pageIndex, total, buttons)
-    };
-  }
-
-  return {
-    ...page,
-    components: buildComponents(pageIndex, total, buttons)
-  };
-}
-
-function createEditOptions(
-  page: string | MessageCreateOptions,
-  pageIndex: number,
-  total: number,
-  buttons?: ButtonOption[]
-): MessageEditOptions {
-  if (typeof page === 'string') {
-    return {
-      content: page,
-      components: buildComponents(pageIndex, total, buttons)
-    };
-  }
-
-  const { files, flags, ...rest } = page;
-
-  return {
-    ...rest,
-    components: buildComponents(pageIndex, total, buttons)
-  };
-}
+import { PageProvider } from './pages';
+import { PaginationTarget, Paginator, PaginatorEndBehavior } from './paginator';
+import { SendPriority, SendQueue } from './queue';
 
 /**
  * Sends a paginated message with navigation buttons
- * @param channel - The channel to send the paginated message to
- * @param pages - Array of message content for each page
+ * @param target - The channel to send the paginated message to, or the interaction to reply to
+ * @param pages - Array of message content for each page, or a provider that renders a page by index
  * @param options - Configuration options for the pagination
  * @param options.timeout - Time in ms before buttons are disabled (default: 60000)
  * @param options.startPage - The initial page index to display (default: 0)
  * @param options.userId - If set, only this user can interact with the buttons
  * @param options.buttons - Custom buttons to add to the navigation
- * @returns {Promise<void>} - Resolves when the collector ends
+ * @param options.ephemeral - Whether the reply is only visible to the interaction's user; ignored for channels
+ * @param options.total - The number of pages a provider can render, if known; shown as `?` until the end is reached otherwise
+ * @param options.cacheSize - Maximum number of pages rendered by a provider that are kept in memory (default: 10)
+ * @param options.jumpButton - Adds a button that asks for a page number in a modal
+ * @param options.pageTitles - Adds a select menu listing these titles, one per page; at most 25
+ * @param options.endBehavior - What happens to the buttons when the paginator ends (default: 'remove')
+ * @param options.queue - Sends the paginator to a channel through a {@link SendQueue}; page turns are not queued
+ * @returns {Promise<void>} - Resolves when the paginator ends
+ * @description A shorthand for a {@link Paginator} with previous, page indicator and next buttons. When replying to an interaction, a deferred interaction gets its reply edited. Ephemeral
+ * replies can only be edited through the interaction token, so their buttons stop working just before
+ * the token expires 15 minutes after the command was used.
+ *
+ * A page provider is called when a page is first shown; while it renders, the controls are disabled
+ * and show a loading label. Returning null from the provider marks the end of the pages, and a provider
+ * that throws leaves the current page shown.
+ *
+ * Buttons are laid out five per row, followed by the page select menu.
  * @example
  * // Simple text-based pages
  * const pages = [
@@ -148,75 +79,48 @@ function createEditOptions(
  *   ],
  *   startPage: 1 // Start on second page
  * });
+ *
+ * // As the ephemeral reply to a slash command
+ * await sendPaginatedMessage(interaction, pages, { ephemeral: true });
+ *
+ * // Search results rendered as they are browsed
+ * await sendPaginatedMessage(interaction, async (index) => {
+ *   const results = await search(query, { offset: index * 10, limit: 10 });
+ *   return results.length ? results.map(result => result.title).join('\n') : null;
+ * });
+ *
+ * // Jump straight to a chapter
+ * await sendPaginatedMessage(interaction, chapters.map(chapter => chapter.text), {
+ *   jumpButton: true,
+ *   pageTitles: chapters.map(chapter => chapter.title)
+ * });
  */
 export function sendPaginatedMessage(
-  channel: GuildTextBasedChannel | DMChannel,
-  pages: Array<string | MessageCreateOptions>,
+  target: PaginationTarget,
+  pages: Array<string | MessageCreateOptions> | PageProvider<string | MessageCreateOptions>,
   options?: {
     timeout?: number;
     startPage?: number;
     userId?: string;
     buttons?: ButtonOption[];
+    ephemeral?: boolean;
+    total?: number;
+    cacheSize?: number;
+    jumpButton?: boolean;
+    pageTitles?: string[];
+    endBehavior?: PaginatorEndBehavior;
+    queue?: SendQueue;
   }
 ): Promise<void> {
-  return new Promise(async (resolve, reject) => {
-    try {
-      const timeout = options?.timeout ?? 60000;
-      let currentPage = options?.startPage ?? 0;
-      const userId = options?.userId;
-
-      const message = await channel.send(
-        createMessageOptions(pages[currentPage], currentPage, pages.length, options?.buttons)
-      );
-
-      const collector = message.createMessageComponentCollector({
-        time: timeout
-      });
-
-      collector.on(
-        'collect',
-        async (interaction: MessageComponentInteraction) => {
-          if (userId && interaction.user.id !== userId) {
-            await interaction.reply({
-              content: 'You are not authorized to interact with these controls.',
-              ephemeral: true
-            });
-            return;
-          }
-
-          await interaction.deferUpdate();
-
-          switch (interaction.customId) {
-            case 'prev':
-              currentPage = Math.max(0, currentPage - 1);
-              break;
-            case 'next':
-              currentPage = Math.min(pages.length - 1, currentPage + 1);
-              break;
-            default:
-              const customButton = options?.buttons?.find(
-                (b) => b.id === interaction.customId
-              );
-              if (customButton) {
-                currentPage = customButton.callback(currentPage);
-              }
-          }
-
-          await message.edit(
-            createEditOptions(pages[currentPage], currentPage, pages.length, options?.buttons)
-          );
-        }
-      );
+  return new Promise((resolve, reject) => {
+    const paginator = new Paginator(pages, {
+      ...options,
+      controls: ['prev', 'page', 'next', ...(options?.jumpButton ? ['jump' as const] : [])],
+      name: 'sendPaginatedMessage'
+    });
 
-      collector.on('end', () => {
-        message.edit({
-          components: []
-        }).catch(() => {});
-        resolve();
-      });
-    } catch (error) {
-      reject(error);
-    }
+    paginator.once('end', () => resolve());
+    paginator.send(target).catch(reject);
   });
 }
 
@@ -340,6 +244,9 @@ export function awaitUserInput(
  * @param message - The message to reply to
  * @param content - The content to include in the reply
  * @param delay - Time in milliseconds before the reply is deleted (default: 5000)
+ * @param options - Configuration options for the reply
+ * @param options.queue - Sends the reply through a {@link SendQueue}, after the messages already queued for the channel
+ * @param options.priority - The priority of the reply in the queue (default: 'normal')
  * @returns {Promise<void>} - Resolves when the reply is sent
  * @example
  * // Simple text response that disappears after 5 seconds
@@ -370,14 +277,20 @@ export function awaitUserInput(
  *     );
  *   }
  * }
+ *
+ * // Ahead of the messages already queued for the channel
+ * await replyWithAutoDelete(message, 'Slow down!', 5000, { queue: sendQueue, priority: 'high' });
  */
 export async function replyWithAutoDelete(
   message: Message,
   content: string | MessagePayload | MessageCreateOptions,
-  delay = 5000
+  delay = 5000,
+  options: { queue?: SendQueue; priority?: SendPriority } = {}
 ): Promise<void> {
+  const { queue, priority } = options;
+
   try {
-    const reply = await message.reply(content);
+    const reply = queue ? await queue.reply(message, content, { priority }) : await message.reply(content);
     setTimeout(() => {
       reply.delete().catch(() => {});
     }, delay);
@@ -387,10 +300,367 @@ export async function replyWithAutoDelete(
 }
 
 /**
- * Splits a long message into chunks that fit within Discord's message length limits
+ * A ``` code block: its opening line, its content and its closing line
+ */
+interface CodeFence {
+  marker: string;
+  language: string;
+  /** Start of the opening line */
+  open: number;
+  /** Start of the content, after the opening line */
+  contentStart: number;
+  /** Start of the closing line, or the end of the text if the block is never closed */
+  close: number;
+  /** End of the closing line */
+  end: number;
+}
+
+/**
+ * A paired inline Markdown span such as `**bold**` or `||spoiler||`
+ */
+interface InlineSpan {
+  marker: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * A place where a message can be split: the chunk ends at `end` and the next one starts at `next`,
+ * skipping the whitespace in between
+ */
+interface SplitPoint {
+  end: number;
+  next: number;
+}
+
+const INLINE_MARKERS = ['**', '__', '~~', '||', '`', '*', '_'];
+
+// Mentions, custom emojis, timestamps, slash command mentions and links must never be cut
+const ATOMIC_TOKEN_PATTERN = /<(?:@[!&]?\d+|#\d+|a?:[^:\s>]+:\d+|t:-?\d+(?::[tTdDfFR])?|\/[^>\s]+:\d+)>|https?:\/\/\S+/g;
+
+function scanCodeFences(text: string): CodeFence[] {
+  const fences: CodeFence[] = [];
+  const linePattern = /^ {0,3}(`{3,})([^`\n]*)$/gm;
+  let open: { marker: string; language: string; open: number; contentStart: number } | null = null;
+
+  for (const match of text.matchAll(linePattern)) {
+    const start = match.index!;
+    const end = start + match[0].length;
+
+    if (!open) {
+      open = { marker: match[1], language: match[2].trim().split(/\s/)[0], open: start, contentStart: Math.min(end + 1, text.length) };
+    } else if (match[1].length >= open.marker.length && !match[2].trim()) {
+      fences.push({ ...open, close: start, end });
+      open = null;
+    }
+  }
+
+  if (open) {
+    fences.push({ ...open, close: text.length, end: text.length });
+  }
+
+  return fences;
+}
+
+/**
+ * Whether a single `*` or `_` can open or close italics, following Discord's rules: the text inside must not start
+ * or end with whitespace, and an underscore must not be inside a word, as in snake_case
+ */
+function canDelimitItalics(text: string, index: number, marker: string, opening: boolean): boolean {
+  const inside = text[opening ? index + 1 : index - 1];
+  const outside = text[opening ? index - 1 : index + 1];
+
+  if (inside === undefined || /\s/.test(inside)) {
+    return false;
+  }
+
+  return marker === '*' || outside === undefined || !/\w/.test(outside);
+}
+
+function scanInlineSpans(text: string, fences: CodeFence[]): InlineSpan[] {
+  const spans: InlineSpan[] = [];
+  const opened = new Map<string, number>();
+  // Links are not Markdown, so underscores and asterisks in them are skipped
+  const links = [...text.matchAll(ATOMIC_TOKEN_PATTERN)];
+  let fenceIndex = 0;
+  let linkIndex = 0;
+
+  for (let i = 0; i < text.length; i++) {
+    const fence = fences[fenceIndex];
+    if (fence && i >= fence.open) {
+      i = fence.end;
+      fenceIndex++;
+      continue;
+    }
+
+    while (links[linkIndex] && links[linkIndex].index! + links[linkIndex][0].length <= i) {
+      linkIndex++;
+    }
+
+    const link = links[linkIndex];
+    if (link && i >= link.index! && !opened.has('`')) {
+      i = link.index! + link[0].length - 1;
+      continue;
+    }
+
+    if (text[i] === '\\') {
+      i++;
+      continue;
+    }
+
+    // Inside inline code, only a backtick is meaningful
+    const marker = opened.has('`')
+      ? (text[i] === '`' ? '`' : undefined)
+      : INLINE_MARKERS.find(candidate => text.startsWith(candidate, i));
+
+    if (!marker) {
+      continue;
+    }
+
+    const start = opened.get(marker);
+    const italics = marker === '*' || marker === '_';
+
+    if (start === undefined) {
+      if (!italics || canDelimitItalics(text, i, marker, true)) {
+        opened.set(marker, i);
+      }
+    } else if (!italics || canDelimitItalics(text, i, marker, false)) {
+      spans.push({ marker, start, end: i + marker.length });
+      opened.delete(marker);
+    } else if (canDelimitItalics(text, i, marker, true)) {
+      // Italics cannot contain their own marker, so an earlier unmatched one is plain text
+      opened.set(marker, i);
+    }
+
+    i += marker.length - 1;
+  }
+
+  return spans.sort((a, b) => a.start - b.start);
+}
+
+function isGraphemeBoundary(text: string, index: number): boolean {
+  if (index <= 0 || index >= text.length) {
+    return true;
+  }
+
+  const before = text.charCodeAt(index - 1);
+  const after = text.codePointAt(index)!;
+
+  // Surrogate pairs, combining marks, variation selectors, skin tones, tags and zero-width joiner sequences
+  if (before >= 0xd800 && before <= 0xdbff) return false;
+  if (/[\p{M}\u200d\p{Emoji_Modifier}\u{e0020}-\u{e007f}]/u.test(String.fromCodePoint(after))) return false;
+  if (before === 0x200d) return false;
+
+  // Regional indicators pair up into flags
+  const isRegionalIndicator = (codePoint: number) => codePoint >= 0x1f1e6 && codePoint <= 0x1f1ff;
+  if (isRegionalIndicator(after)) {
+    let count = 0;
+    for (let i = index - 2; i >= 0 && isRegionalIndicator(text.codePointAt(i)!); i -= 2) {
+      count++;
+    }
+    return count % 2 === 0;
+  }
+
+  return true;
+}
+
+/**
+ * Finds the last item whose key is at most a value, in items sorted by that key
+ * @returns {number} - The index of the item, or -1 if every key is greater
+ */
+function findLastAtMost<T>(items: T[], key: (item: T) => number, value: number): number {
+  let low = 0;
+  let high = items.length - 1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (key(items[middle]) <= value) {
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return high;
+}
+
+/**
+ * Merges ranges whose insides overlap, so a position is inside at most one of them
+ */
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const merged: Array<[number, number]> = [];
+
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start < last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      merged.push([start, end]);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Splits text into chunks with every ``` block closed at the end of a chunk and reopened, with its language,
+ * at the start of the next, and inline spans that could not be kept whole closed and reopened the same way
+ */
+function splitMarkdown(
+  text: string,
+  maxLength: number,
+  prefix: (index: number) => string,
+  suffix: (index: number) => string
+): string[] {
+  // Everything is looked up by binary search, so long messages split in close to linear time
+  const fences = scanCodeFences(text);
+  const spans = scanInlineSpans(text, fences);
+  const fenceAt = (position: number) => {
+    const fence = fences[findLastAtMost(fences, candidate => candidate.contentStart, position)];
+    return fence && position <= fence.close ? fence : undefined;
+  };
+
+  // Spans of the same marker never overlap, so at most one of them is open at a position
+  const spansByMarker = INLINE_MARKERS.map(marker => spans.filter(span => span.marker === marker));
+  const openSpansAt = (position: number) => spansByMarker
+    .map(markerSpans => markerSpans[findLastAtMost(markerSpans, span => span.start + span.marker.length, position)])
+    .filter(span => span && position <= span.end - span.marker.length)
+    .sort((a, b) => a.start - b.start);
+
+  // Positions strictly inside these ranges are never cut at
+  const atomic = mergeRanges([
+    ...[...text.matchAll(ATOMIC_TOKEN_PATTERN)].map((match): [number, number] => [match.index!, match.index! + match[0].length]),
+    ...fences.flatMap((fence): Array<[number, number]> => [[fence.open, fence.contentStart + 1], [fence.close, fence.end]]),
+    ...spans.flatMap((span): Array<[number, number]> => [
+      [span.start, span.start + span.marker.length],
+      [span.end - span.marker.length, span.end]
+    ])
+  ]);
+  const isAtomic = (position: number) => {
+    const range = atomic[findLastAtMost(atomic, ([start]) => start, position - 1)];
+    return !!range && position < range[1];
+  };
+
+  const pointsOf = (pattern: RegExp, toPoint: (match: RegExpMatchArray, fence: CodeFence | undefined) => SplitPoint | null) =>
+    [...text.matchAll(pattern)]
+      .map(match => toPoint(match, fenceAt(match.index!)))
+      .filter((point): point is SplitPoint => point !== null && !isAtomic(point.end));
+
+  // From the most to the least preferred; code is only split between lines, or between words as a last resort
+  const levels: SplitPoint[][] = [
+    pointsOf(/\n{2,}/g, (match, fence) => fence ? null : { end: match.index!, next: match.index! + match[0].length }),
+    pointsOf(/\n/g, match => ({ end: match.index!, next: match.index! + 1 })),
+    pointsOf(/[.!?]+["')\]*_~|]*(\s+)/g, (match, fence) => {
+      if (fence) return null;
+      const end = match.index! + match[0].length - match[1].length;
+      return { end, next: match.index! + match[0].length };
+    }),
+    pointsOf(/[ \t]+/g, (match, fence) => fence
+      ? { end: match.index!, next: match.index! }
+      : { end: match.index!, next: match.index! + match[0].length })
+  ];
+
+  const findSplitPoint = (start: number, limit: number): SplitPoint => {
+    const halfway = start + Math.floor((limit - start) / 2);
+
+    for (const minimum of [halfway, start]) {
+      for (const keepSpans of [true, false]) {
+        // Points are sorted, so only the ones inside the window are visited
+        for (const points of levels) {
+          for (let i = findLastAtMost(points, point => point.end, limit); i >= 0 && points[i].end > minimum; i--) {
+            if (!keepSpans || !openSpansAt(points[i].end).length) {
+              return points[i];
+            }
+          }
+        }
+      }
+    }
+
+    let end = limit;
+    while (end > start && (!isGraphemeBoundary(text, end) || isAtomic(end))) end--;
+
+    // A single mention or link longer than a chunk has to be cut anyway
+    if (end <= start) {
+      end = limit;
+      while (end > start + 1 && !isGraphemeBoundary(text, end)) end--;
+    }
+
+    return { end, next: end };
+  };
+
+  const closingAt = (end: number) => {
+    const fence = fenceAt(end);
+    if (fence) {
+      return `${text[end - 1] === '\n' ? '' : '\n'}${fence.marker}`;
+    }
+    return openSpansAt(end).map(span => span.marker).reverse().join('');
+  };
+
+  const reopeningAt = (next: number) => {
+    const fence = fenceAt(next);
+    if (fence) {
+      return `${fence.marker}${fence.language}\n`;
+    }
+    return openSpansAt(next).map(span => span.marker).join('');
+  };
+
+  const chunks: string[] = [];
+  let start = 0;
+  let reopening = '';
+
+  while (start < text.length) {
+    const head = prefix(chunks.length) + reopening;
+    const tail = suffix(chunks.length);
+    const budget = maxLength - head.length - tail.length;
+    let limit = start + budget;
+    let point: SplitPoint = { end: text.length, next: text.length };
+    let closing = '';
+
+    for (;;) {
+      if (limit <= start) {
+        throw new Error(`maxLength ${maxLength} is too small to fit the prefix, suffix and Markdown of a chunk`);
+      }
+
+      point = limit >= text.length ? { end: text.length, next: text.length } : findSplitPoint(start, limit);
+      closing = point.end < text.length ? closingAt(point.end) : '';
+
+      const overflow = point.end - start + closing.length - budget;
+      if (overflow <= 0) break;
+      limit -= overflow;
+    }
+
+    const content = text.slice(start, point.end);
+    if (content.trim()) {
+      chunks.push(head + content + closing + tail);
+    }
+
+    start = point.next;
+    reopening = closing ? reopeningAt(start) : '';
+
+    // The rest of the code block is empty: its closing line was already added to the previous chunk
+    const fence = fenceAt(start);
+    if (fence && start === fence.close && fence.close < text.length) {
+      start = fence.end + (text[fence.end] === '\n' ? 1 : 0);
+      reopening = '';
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Splits a long message into chunks that fit within Discord's message length limits, keeping its Markdown intact
  * @param text - The text to split into chunks
- * @param maxLength - Maximum length of each chunk (default: 2000)
+ * @param maxLength - Maximum length of each chunk, including its prefix and suffix (default: 2000)
+ * @param options - Configuration options for the chunks
+ * @param options.prefix - Text added before each chunk, or a function of the chunk index
+ * @param options.suffix - Text added after each chunk, or a function of the chunk index
  * @returns {string[]} - Array of message chunks, each within the maximum length
+ * @description Chunks end at a paragraph break if one is in the second half of the chunk, then at a line break,
+ * the end of a sentence or a space, and only then inside a word. Text is never split inside a mention, custom
+ * emoji, timestamp, link, surrogate pair or grapheme cluster. A ``` code block that spans several chunks is
+ * closed at the end of each and reopened with its language at the start of the next, and so are bold, italic,
+ * underline, strikethrough, spoiler and inline code spans that could not be kept in a single chunk.
  * @example
  * // Handling a long response that exceeds Discord's 2000 character limit
  * async function sendLongHelp(channel) {
@@ -420,48 +690,27 @@ export async function replyWithAutoDelete(
  *
  *   return embeds;
  * }
+ *
+ * // Number the parts of a long log, and quote each of them
+ * const parts = splitLongMessage(log, 2000, {
+ *   prefix: (index) => `**Part ${index + 1}**\n`,
+ *   suffix: '\n-# continued below'
+ * });
  */
-export function splitLongMessage(text: string, maxLength = 2000): string[] {
-  const chunks: string[] = [];
-
-  if (text.length <= maxLength) {
-    return [text];
+export function splitLongMessage(
+  text: string,
+  maxLength = 2000,
+  options: { prefix?: string | ((index: number) => string); suffix?: string | ((index: number) => string) } = {}
+): string[] {
+  const { prefix = '', suffix = '' } = options;
+  const resolvePrefix = typeof prefix === 'function' ? prefix : () => prefix;
+  const resolveSuffix = typeof suffix === 'function' ? suffix : () => suffix;
+
+  if (text.length + resolvePrefix(0).length + resolveSuffix(0).length <= maxLength) {
+    return [resolvePrefix(0) + text + resolveSuffix(0)];
   }
 
-  const lines = text.split('\n');
-  let currentChunk = '';
-
-  for (const line of lines) {
-    if (line.length > maxLength) {
-      if (currentChunk.length > 0) {
-        chunks.push(currentChunk);
-        currentChunk = '';
-      }
-
-      let remainingLine = line;
-      while (remainingLine.length > maxLength) {
-        const segment = remainingLine.substring(0, maxLength);
-        chunks.push(segment);
-        remainingLine = remainingLine.substring(maxLength);
-      }
-
-      currentChunk = remainingLine;
-    } else if (currentChunk.length + line.length + 1 > maxLength) {
-      chunks.push(currentChunk);
-      currentChunk = line;
-    } else {
-      if (currentChunk.length > 0) {
-        currentChunk += '\n';
-      }
-      currentChunk += line;
-    }
-  }
-
-  if (currentChunk.length > 0) {
-    chunks.push(currentChunk);
-  }
-
-  return chunks;
+  return splitMarkdown(text, maxLength, resolvePrefix, resolveSuffix);
 }
 
 /**
@@ -0,0 +1,232 @@
+/**
+ * A latency histogram with cumulative bucket counts, in milliseconds
+ */
+export interface LatencyHistogram {
+  /** Upper bounds of the buckets and how many observations were at or below each */
+  buckets: Array<{ le: number; count: number }>;
+  sum: number;
+  count: number;
+}
+
+/**
+ * The recorded metrics of a single command
+ */
+export interface CommandMetrics {
+  invocations: number;
+  errors: number;
+  cooldownRejections: number;
+  latency: LatencyHistogram;
+}
+
+/**
+ * A point-in-time copy of everything a {@link MetricsCollector} has recorded
+ */
+export interface MetricsSnapshot {
+  commands: Record<string, CommandMetrics>;
+  /** Collector timeouts keyed by the pagination helper that timed out */
+  paginatorTimeouts: Record<string, number>;
+}
+
+const DEFAULT_BUCKETS = [5, 10, 25, 50, 100, 250, 500, 1000, 2500, 5000, 10000];
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Records command usage, failures, cooldown rejections, handler latency and pagination timeouts
+ * @class
+ * @description Nothing is recorded until a collector is activated with {@link setMetricsCollector}
+ * @example
+ * const metrics = new MetricsCollector();
+ * setMetricsCollector(metrics);
+ *
+ * // Serve the metrics to Prometheus
+ * http.createServer((req, res) => {
+ *   if (req.url !== '/metrics') return res.writeHead(404).end();
+ *   res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4' });
+ *   res.end(metrics.toPrometheus());
+ * }).listen(9100);
+ */
+export class MetricsCollector {
+  private readonly buckets: number[];
+  private readonly commands: Map<string, CommandMetrics> = new Map();
+  private readonly paginatorTimeouts: Map<string, number> = new Map();
+
+  /**
+   * @param options - Configuration options for the collector
+   * @param options.buckets - Upper bounds of the latency histogram buckets in milliseconds
+   */
+  constructor(options: { buckets?: number[] } = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+  }
+
+  private getCommand(command: string): CommandMetrics {
+    let metrics = this.commands.get(command);
+
+    if (!metrics) {
+      metrics = {
+        invocations: 0,
+        errors: 0,
+        cooldownRejections: 0,
+        latency: { buckets: this.buckets.map(le => ({ le, count: 0 })), sum: 0, count: 0 }
+      };
+      this.commands.set(command, metrics);
+    }
+
+    return metrics;
+  }
+
+  /**
+   * Records that a command handler ran
+   * @param command - The command name
+   */
+  public recordInvocation(command: string): void {
+    this.getCommand(command).invocations++;
+  }
+
+  /**
+   * Records that a command handler threw
+   * @param command - The command name
+   */
+  public recordError(command: string): void {
+    this.getCommand(command).errors++;
+  }
+
+  /**
+   * Records that a command was rejected because it was on cooldown
+   * @param command - The command name
+   */
+  public recordCooldownRejection(command: string): void {
+    this.getCommand(command).cooldownRejections++;
+  }
+
+  /**
+   * Records how long a command handler took
+   * @param command - The command name
+   * @param duration - The duration in milliseconds
+   */
+  public recordLatency(command: string, duration: number): void {
+    const { latency } = this.getCommand(command);
+
+    latency.sum += duration;
+    latency.count++;
+
+    for (const bucket of latency.buckets) {
+      if (duration <= bucket.le) {
+        bucket.count++;
+      }
+    }
+  }
+
+  /**
+   * Records that a paginator stopped because nobody used it before its timeout
+   * @param paginator - The name of the pagination helper
+   */
+  public recordPaginatorTimeout(paginator: string): void {
+    this.paginatorTimeouts.set(paginator, (this.paginatorTimeouts.get(paginator) ?? 0) + 1);
+  }
+
+  /**
+   * Copies the recorded metrics
+   * @returns {MetricsSnapshot} - The metrics; later recordings do not change the snapshot
+   * @example
+   * const { commands } = metrics.snapshot();
+   * for (const [name, { invocations, errors }] of Object.entries(commands)) {
+   *   console.log(`/${name}: ${invocations} uses, ${errors} errors`);
+   * }
+   */
+  public snapshot(): MetricsSnapshot {
+    return {
+      commands: Object.fromEntries([...this.commands].map(([command, metrics]) => [command, {
+        ...metrics,
+        latency: { ...metrics.latency, buckets: metrics.latency.buckets.map(bucket => ({ ...bucket })) }
+      }])),
+      paginatorTimeouts: Object.fromEntries(this.paginatorTimeouts)
+    };
+  }
+
+  /**
+   * Formats the recorded metrics in the Prometheus text exposition format
+   * @param options - Configuration options for the output
+   * @param options.prefix - Prefix of every metric name (default: 'discord')
+   * @returns {string} - The metrics, with latencies converted to seconds as Prometheus expects
+   * @example
+   * console.log(metrics.toPrometheus());
+   * // # HELP discord_command_invocations_total Number of times a command handler ran.
+   * // # TYPE discord_command_invocations_total counter
+   * // discord_command_invocations_total{command="ping"} 42
+   * // ...
+   */
+  public toPrometheus(options: { prefix?: string } = {}): string {
+    const { prefix = 'discord' } = options;
+    const lines: string[] = [];
+    const commands = [...this.commands];
+
+    const counter = (name: string, help: string, value: (metrics: CommandMetrics) => number) => {
+      lines.push(`# HELP ${prefix}_${name} ${help}`, `# TYPE ${prefix}_${name} counter`);
+      for (const [command, metrics] of commands) {
+        lines.push(`${prefix}_${name}{command="${escapeLabel(command)}"} ${value(metrics)}`);
+      }
+    };
+
+    counter('command_invocations_total', 'Number of times a command handler ran.', metrics => metrics.invocations);
+    counter('command_errors_total', 'Number of times a command handler threw.', metrics => metrics.errors);
+    counter('command_cooldown_rejections_total', 'Number of command uses rejected by a cooldown.', metrics => metrics.cooldownRejections);
+
+    const histogram = `${prefix}_command_duration_seconds`;
+    lines.push(`# HELP ${histogram} Time taken by command handlers.`, `# TYPE ${histogram} histogram`);
+
+    for (const [command, { latency }] of commands) {
+      const label = `command="${escapeLabel(command)}"`;
+
+      for (const bucket of latency.buckets) {
+        lines.push(`${histogram}_bucket{${label},le="${bucket.le / 1000}"} ${bucket.count}`);
+      }
+
+      lines.push(
+        `${histogram}_bucket{${label},le="+Inf"} ${latency.count}`,
+        `${histogram}_sum{${label}} ${latency.sum / 1000}`,
+        `${histogram}_count{${label}} ${latency.count}`
+      );
+    }
+
+    const timeouts = `${prefix}_paginator_timeouts_total`;
+    lines.push(`# HELP ${timeouts} Number of paginators that stopped after their timeout.`, `# TYPE ${timeouts} counter`);
+
+    for (const [paginator, count] of this.paginatorTimeouts) {
+      lines.push(`${timeouts}{paginator="${escapeLabel(paginator)}"} ${count}`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Clears all recorded metrics
+   */
+  public reset(): void {
+    this.commands.clear();
+    this.paginatorTimeouts.clear();
+  }
+}
+
+let activeCollector: MetricsCollector | null = null;
+
+/**
+ * Activates a metrics collector for the library's command and pagination helpers
+ * @param collector - The collector to record into, or null to stop recording
+ * @example
+ * setMetricsCollector(new MetricsCollector({ buckets: [50, 100, 500, 1000] }));
+ */
+export function setMetricsCollector(collector: MetricsCollector | null): void {
+  activeCollector = collector;
+}
+
+/**
+ * Gets the active metrics collector
+ * @returns {MetricsCollector | null} - The collector, or null when metrics are disabled
+ * @internal
+ */
+export function getMetricsCollector(): MetricsCollector | null {
+  return activeCollector;
+}
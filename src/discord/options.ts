@@ -0,0 +1,304 @@
+import {
+  APIApplicationCommandOption,
+  APIInteractionDataResolvedGuildMember,
+  APIRole,
+  ApplicationCommandOptionType,
+  ChannelType,
+  ChatInputCommandInteraction,
+  CommandInteractionOption,
+  GuildMember,
+  Role,
+  User,
+} from 'discord.js';
+import { AutocompleteProvider } from './autocomplete';
+import { LocaleSource, t } from './i18n';
+
+/**
+ * A single option of a slash command option schema, created with {@link option}
+ * @typeParam Value - The type of the parsed value handed to the command
+ * @typeParam Required - Whether the option must be provided
+ */
+export interface CommandOption<Value = unknown, Required extends boolean = boolean> {
+  type: ApplicationCommandOptionType;
+  description: string;
+  required: Required;
+  choices?: ReadonlyArray<{ name: string; value: string | number }>;
+  min?: number;
+  max?: number;
+  minLength?: number;
+  maxLength?: number;
+  channelTypes?: readonly ChannelType[];
+  /** Resolve the option as a guild member instead of a user */
+  member?: boolean;
+  /** Suggest values while the user types, handled by {@link CommandRegistry.dispatch} */
+  autocomplete?: AutocompleteProvider;
+  /** @internal Only carries the parsed value type, never set at runtime */
+  readonly __value?: Value;
+}
+
+/**
+ * A declarative description of a command's options, keyed by option name
+ */
+export type OptionSchema = Record<string, CommandOption>;
+
+/**
+ * The parsed arguments of an option schema, as handed to a command's execute function
+ * @example
+ * const schema = {
+ *   target: option.user({ description: 'Who to ban', required: true }),
+ *   days: option.integer({ description: 'Days of messages to delete', min: 0, max: 7 })
+ * };
+ *
+ * type Args = InferOptions<typeof schema>;
+ * // { target: User; days: number | null }
+ */
+export type InferOptions<S extends OptionSchema> = {
+  [K in keyof S]: S[K] extends CommandOption<infer Value, infer Required>
+    ? Required extends true ? Value : Value | null
+    : never;
+};
+
+type IsRequired<C> = C extends { required: true } ? true : false;
+
+type ChoiceValue<C, Fallback> = C extends { choices: ReadonlyArray<{ value: infer V }> } ? V : Fallback;
+
+type ResolvedChannel = NonNullable<CommandInteractionOption['channel']>;
+
+type BaseConfig = { description: string; required?: boolean };
+
+type StringConfig = BaseConfig & {
+  choices?: ReadonlyArray<{ name: string; value: string }>;
+  autocomplete?: AutocompleteProvider;
+  minLength?: number;
+  maxLength?: number;
+};
+
+type NumericConfig = BaseConfig & {
+  choices?: ReadonlyArray<{ name: string; value: number }>;
+  autocomplete?: AutocompleteProvider;
+  min?: number;
+  max?: number;
+};
+
+/**
+ * Builders for the options of a slash command schema
+ * @example
+ * const ban = defineCommand({
+ *   name: 'ban',
+ *   description: 'Bans a member',
+ *   options: {
+ *     target: option.member({ description: 'The member to ban', required: true }),
+ *     reason: option.string({ description: 'Why they are banned', maxLength: 400 }),
+ *     days: option.integer({ description: 'Days of messages to delete', min: 0, max: 7 }),
+ *     log: option.channel({ description: 'Where to log the ban', channelTypes: [ChannelType.GuildText] }),
+ *     template: option.string({ description: 'A saved ban message', autocomplete: fuzzyChoices(['spam', 'raid', 'nsfw']) }),
+ *     severity: option.string({
+ *       description: 'How severe the offence was',
+ *       choices: [
+ *         { name: 'Low', value: 'low' },
+ *         { name: 'High', value: 'high' }
+ *       ]
+ *     })
+ *   },
+ *   execute: async (interaction, { target, reason, days, severity }) => {
+ *     // target: GuildMember, or its API data if the guild is not cached; reason: string | null,
+ *     // days: number | null, severity: 'low' | 'high' | null
+ *     if (target instanceof GuildMember) {
+ *       await target.ban({ reason: reason ?? undefined, deleteMessageSeconds: (days ?? 0) * 86400 });
+ *     }
+ *   }
+ * });
+ */
+export const option = {
+  string<const C extends StringConfig>(config: C): CommandOption<ChoiceValue<C, string>, IsRequired<C>> {
+    return { ...config, type: ApplicationCommandOptionType.String, required: !!config.required as IsRequired<C> };
+  },
+
+  integer<const C extends NumericConfig>(config: C): CommandOption<ChoiceValue<C, number>, IsRequired<C>> {
+    return { ...config, type: ApplicationCommandOptionType.Integer, required: !!config.required as IsRequired<C> };
+  },
+
+  number<const C extends NumericConfig>(config: C): CommandOption<ChoiceValue<C, number>, IsRequired<C>> {
+    return { ...config, type: ApplicationCommandOptionType.Number, required: !!config.required as IsRequired<C> };
+  },
+
+  boolean<const C extends BaseConfig>(config: C): CommandOption<boolean, IsRequired<C>> {
+    return { ...config, type: ApplicationCommandOptionType.Boolean, required: !!config.required as IsRequired<C> };
+  },
+
+  user<const C extends BaseConfig>(config: C): CommandOption<User, IsRequired<C>> {
+    return { ...config, type: ApplicationCommandOptionType.User, required: !!config.required as IsRequired<C> };
+  },
+
+  member<const C extends BaseConfig>(config: C): CommandOption<GuildMember | APIInteractionDataResolvedGuildMember, IsRequired<C>> {
+    return { ...config, type: ApplicationCommandOptionType.User, required: !!config.required as IsRequired<C>, member: true };
+  },
+
+  role<const C extends BaseConfig>(config: C): CommandOption<Role | APIRole, IsRequired<C>> {
+    return { ...config, type: ApplicationCommandOptionType.Role, required: !!config.required as IsRequired<C> };
+  },
+
+  channel<const C extends BaseConfig & { channelTypes?: readonly ChannelType[] }>(
+    config: C
+  ): CommandOption<
+    C extends { channelTypes: ReadonlyArray<infer T> } ? Extract<ResolvedChannel, { type: T }> : ResolvedChannel,
+    IsRequired<C>
+  > {
+    return { ...config, type: ApplicationCommandOptionType.Channel, required: !!config.required as IsRequired<C> };
+  }
+};
+
+/**
+ * Builds the registration payload of an option schema
+ * @param schema - The option schema
+ * @returns {APIApplicationCommandOption[]} - The options as sent to the Discord API, required options first
+ * @example
+ * const payload = buildOptionsPayload({
+ *   query: option.string({ description: 'What to search for', required: true })
+ * });
+ * // [{ type: 3, name: 'query', description: 'What to search for', required: true }]
+ */
+export function buildOptionsPayload(schema: OptionSchema): APIApplicationCommandOption[] {
+  const entries = Object.entries(schema);
+
+  for (const [name, definition] of entries) {
+    if (!/^[-_'\p{L}\p{N}]{1,32}$/u.test(name) || name !== name.toLowerCase()) {
+      throw new Error(`Invalid option name "${name}"`);
+    }
+
+    if (!definition.description || definition.description.length > 100) {
+      throw new Error(`Option "${name}" must have a description of 1-100 characters`);
+    }
+
+    if (definition.choices && definition.autocomplete) {
+      throw new Error(`Option "${name}" cannot have both choices and autocomplete`);
+    }
+  }
+
+  // Discord rejects required options that come after optional ones
+  const sorted = [
+    ...entries.filter(([, definition]) => definition.required),
+    ...entries.filter(([, definition]) => !definition.required)
+  ];
+
+  return sorted.map(([name, definition]) => ({
+    type: definition.type,
+    name,
+    description: definition.description,
+    ...(definition.required && { required: true }),
+    ...(definition.choices && { choices: [...definition.choices] }),
+    ...(definition.autocomplete && { autocomplete: true }),
+    ...(definition.min !== undefined && { min_value: definition.min }),
+    ...(definition.max !== undefined && { max_value: definition.max }),
+    ...(definition.minLength !== undefined && { min_length: definition.minLength }),
+    ...(definition.maxLength !== undefined && { max_length: definition.maxLength }),
+    ...(definition.channelTypes && { channel_types: [...definition.channelTypes] })
+  }) as APIApplicationCommandOption);
+}
+
+/**
+ * Reads and validates the options of an interaction against a schema
+ * @param interaction - The slash command interaction
+ * @param schema - The option schema of the command
+ * @returns {object} - Either the parsed arguments or a message describing the first invalid option
+ * @example
+ * const result = parseOptions(interaction, schema);
+ *
+ * if (!result.success) {
+ *   return interaction.reply({ content: result.error, ephemeral: true });
+ * }
+ *
+ * const { target, days } = result.args;
+ */
+export function parseOptions<S extends OptionSchema>(
+  interaction: ChatInputCommandInteraction,
+  schema: S
+): { success: true; args: InferOptions<S> } | { success: false; error: string } {
+  const args: Record<string, unknown> = {};
+
+  for (const [name, definition] of Object.entries(schema)) {
+    const raw = interaction.options.get(name);
+    let value: unknown = null;
+
+    if (raw) {
+      switch (definition.type) {
+        case ApplicationCommandOptionType.User:
+          value = definition.member ? raw.member ?? null : raw.user ?? null;
+          break;
+        case ApplicationCommandOptionType.Role:
+          value = raw.role ?? null;
+          break;
+        case ApplicationCommandOptionType.Channel:
+          value = raw.channel ?? null;
+          break;
+        default:
+          value = raw.value ?? null;
+      }
+    }
+
+    if (value === null) {
+      if (definition.required || (raw && definition.member)) {
+        return {
+          success: false,
+          error: definition.member && raw
+            ? t('option.notMember', { name }, interaction)
+            : t('option.missing', { name }, interaction)
+        };
+      }
+
+      args[name] = null;
+      continue;
+    }
+
+    const error = validateOption(name, definition, value, interaction);
+    if (error) {
+      return { success: false, error };
+    }
+
+    args[name] = value;
+  }
+
+  return { success: true, args: args as InferOptions<S> };
+}
+
+function validateOption(name: string, definition: CommandOption, value: unknown, locale: LocaleSource): string | null {
+  if (definition.choices && !definition.choices.some(choice => choice.value === value)) {
+    return t('option.invalidChoice', { name, value: String(value) }, locale);
+  }
+
+  if (typeof value === 'string') {
+    if (definition.minLength !== undefined && value.length < definition.minLength) {
+      return t('option.minLength', { name, min: definition.minLength }, locale);
+    }
+
+    if (definition.maxLength !== undefined && value.length > definition.maxLength) {
+      return t('option.maxLength', { name, max: definition.maxLength }, locale);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (definition.type === ApplicationCommandOptionType.Integer && !Number.isInteger(value)) {
+      return t('option.integer', { name }, locale);
+    }
+
+    if (definition.min !== undefined && value < definition.min) {
+      return t('option.min', { name, min: definition.min }, locale);
+    }
+
+    if (definition.max !== undefined && value > definition.max) {
+      return t('option.max', { name, max: definition.max }, locale);
+    }
+  }
+
+  if (
+    definition.channelTypes &&
+    typeof value === 'object' &&
+    value !== null &&
+    'type' in value &&
+    !definition.channelTypes.includes(value.type as ChannelType)
+  ) {
+    return t('option.channelType', { name }, locale);
+  }
+
+  return null;
+}
@@ -0,0 +1,153 @@
+/**
+ * Renders a page on demand; resolving null or undefined marks the index as past the last page
+ * @param index - The zero-based page index
+ */
+export type PageProvider<T> = (index: number) => Promise<T | null | undefined> | T | null | undefined;
+
+/**
+ * Configuration options for a lazily rendered page source
+ */
+export interface PageSourceOptions {
+  /** The number of pages, if known up front; otherwise the end is discovered when the provider returns null */
+  total?: number;
+  /** Maximum number of rendered pages kept in memory (default: 10) */
+  cacheSize?: number;
+}
+
+/**
+ * The pages of a paginator, given up front or rendered on demand by a {@link PageProvider}
+ * @class
+ * @description Rendered pages are kept in a least-recently-used cache, and concurrent requests for the
+ * same page share a single provider call. When the total is not known, it becomes known once the provider
+ * returns null for the page right after the last one that rendered.
+ * @example
+ * const source = new PageSource(async (index) => {
+ *   const rows = await db.leaderboard.find({ skip: index * 10, take: 10 });
+ *   return rows.length ? formatLeaderboard(rows, index) : null;
+ * }, { cacheSize: 5 });
+ *
+ * const first = await source.get(0);
+ * source.total; // null until the last page was reached
+ */
+export class PageSource<T> {
+  private readonly provider: PageProvider<T>;
+  private readonly cacheSize: number;
+  private readonly cache: Map<number, T> = new Map();
+  private readonly pending: Map<number, Promise<T | null>> = new Map();
+  private knownTotal: number | null;
+  private end: number | null = null;
+  private highest = -1;
+
+  /**
+   * @param pages - The rendered pages, or a provider that renders a page by index
+   * @param options - Configuration options for the source; ignored for arrays, which are never evicted
+   */
+  constructor(pages: T[] | PageProvider<T>, options: PageSourceOptions = {}) {
+    if (Array.isArray(pages)) {
+      this.provider = index => pages[index];
+      this.knownTotal = pages.length;
+      this.cacheSize = Infinity;
+      pages.forEach((page, index) => this.cache.set(index, page));
+      return;
+    }
+
+    if (options.cacheSize !== undefined && options.cacheSize < 1) {
+      throw new Error('Page cache size must be at least 1');
+    }
+
+    this.provider = pages;
+    this.knownTotal = options.total ?? null;
+    this.cacheSize = options.cacheSize ?? 10;
+  }
+
+  /**
+   * The number of pages, or null while it is not known yet
+   */
+  public get total(): number | null {
+    if (this.knownTotal !== null) {
+      return this.knownTotal;
+    }
+
+    return this.end !== null && this.end === this.highest + 1 ? this.end : null;
+  }
+
+  /**
+   * Checks whether a page can be returned without calling the provider
+   * @param index - The page index
+   * @returns {boolean} - True if the page is cached or known not to exist
+   */
+  public isCached(index: number): boolean {
+    return this.cache.has(index) || !this.exists(index);
+  }
+
+  /**
+   * Checks whether a page after the given one may exist
+   * @param index - The page index
+   * @returns {boolean} - False once the page is known to be the last one
+   */
+  public hasNext(index: number): boolean {
+    return this.exists(index + 1);
+  }
+
+  /**
+   * Checks whether a page may exist at an index
+   * @param index - The page index
+   * @returns {boolean} - False if the index is negative, not an integer or past the last page known so far
+   */
+  public exists(index: number): boolean {
+    const total = this.knownTotal ?? this.end;
+    return Number.isInteger(index) && index >= 0 && (total === null || index < total);
+  }
+
+  /**
+   * Gets a page, rendering it if it is not cached
+   * @param index - The page index
+   * @returns {Promise<T | null>} - The page, or null if there is no page at that index
+   */
+  public async get(index: number): Promise<T | null> {
+    if (!this.exists(index)) {
+      return null;
+    }
+
+    const cached = this.cache.get(index);
+    if (cached !== undefined) {
+      // Re-inserting moves the page to the most recently used end
+      this.cache.delete(index);
+      this.cache.set(index, cached);
+      return cached;
+    }
+
+    let pending = this.pending.get(index);
+    if (!pending) {
+      pending = this.render(index).finally(() => this.pending.delete(index));
+      this.pending.set(index, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Drops all rendered pages, e.g. after the underlying data changed
+   */
+  public clear(): void {
+    this.cache.clear();
+  }
+
+  private async render(index: number): Promise<T | null> {
+    const page = await this.provider(index);
+
+    if (page === null || page === undefined) {
+      this.end = Math.min(this.end ?? Infinity, index);
+      return null;
+    }
+
+    this.highest = Math.max(this.highest, index);
+    this.cache.set(index, page);
+
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+
+    return page;
+  }
+}
@@ -0,0 +1,789 @@
+import { EventEmitter } from 'events';
+import {
+  BaseInteraction,
+  ButtonStyle,
+  CollectedMessageInteraction,
+  DMChannel,
+  EmbedBuilder,
+  GuildTextBasedChannel,
+  Interaction,
+  InteractionCollector,
+  InteractionReplyOptions,
+  Message,
+  MessageCreateOptions,
+  MessageEditOptions,
+  MessageFlags,
+  ModalMessageModalSubmitInteraction,
+  RepliableInteraction,
+  SnowflakeUtil,
+  isJSONEncodable,
+} from 'discord.js';
+import { ButtonOption } from '../utils/types';
+import { deferOrReply, isExpiredInteractionError } from './command';
+import { LocaleSource, t } from './i18n';
+import { createModal, createSelectMenu } from './interaction';
+import { getMetricsCollector } from './metrics';
+import { PageProvider, PageSource, PageSourceOptions } from './pages';
+import { SendQueue } from './queue';
+
+/**
+ * Where a paginator is shown: sent to a channel, or as the response to an interaction
+ */
+export type PaginationTarget = GuildTextBasedChannel | DMChannel | RepliableInteraction;
+
+/**
+ * A sent paginator message and how to edit it
+ * @internal
+ */
+export interface PaginationMessage {
+  message: Message;
+  /** Edits the message, through the interaction webhook for ephemeral responses */
+  edit(options: MessageEditOptions): Promise<void>;
+  /** Clamps a collector timeout so the message can still be edited when the collector ends */
+  clampTimeout(timeout: number): number;
+}
+
+// Interaction tokens, and with them ephemeral responses, can only be edited for 15 minutes
+const INTERACTION_TOKEN_LIFETIME = 15 * 60 * 1000;
+const INTERACTION_TOKEN_MARGIN = 5000;
+
+/**
+ * Sends the first page of a paginator to a channel, or replies with it to an interaction
+ * @internal
+ */
+export async function sendPaginationMessage(
+  target: PaginationTarget,
+  page: MessageCreateOptions,
+  ephemeral = false,
+  queue?: SendQueue
+): Promise<PaginationMessage> {
+  if (!(target instanceof BaseInteraction)) {
+    const message = queue ? await queue.send(target, page) : await target.send(page);
+
+    return {
+      message,
+      edit: async (options) => {
+        await message.edit(options);
+      },
+      clampTimeout: timeout => timeout
+    };
+  }
+
+  const { reply, stickers, nonce, enforceNonce, flags, ...response } = page;
+  const message = await deferOrReply(target, {
+    ...response,
+    flags: ephemeral ? MessageFlags.Ephemeral : undefined
+  } as InteractionReplyOptions);
+
+  if (!message) {
+    throw new Error('The interaction expired before the paginator could be sent');
+  }
+
+  // A deferred reply keeps the visibility it was deferred with
+  if (!message.flags.has(MessageFlags.Ephemeral)) {
+    return {
+      message,
+      edit: async (options) => {
+        await message.edit(options);
+      },
+      clampTimeout: timeout => timeout
+    };
+  }
+
+  const expiresAt = target.createdTimestamp + INTERACTION_TOKEN_LIFETIME - INTERACTION_TOKEN_MARGIN;
+
+  return {
+    message,
+    edit: async (options) => {
+      try {
+        await target.editReply({ ...options, message } as Parameters<RepliableInteraction['editReply']>[0]);
+      } catch (error) {
+        if (!isExpiredInteractionError(error)) throw error;
+      }
+    },
+    clampTimeout: timeout => Math.max(1, Math.min(timeout, expiresAt - Date.now()))
+  };
+}
+
+
+/**
+ * A page of a paginator: message content, message options, or a single embed
+ */
+export type PaginatorPage = string | MessageCreateOptions | EmbedBuilder;
+
+/**
+ * A built-in navigation control
+ * - `first` / `last`: jump to the first or last page; `last` is disabled until the total is known
+ * - `prev` / `next`: turn one page
+ * - `page`: a disabled button showing the page indicator
+ * - `jump`: asks for a page number in a modal
+ */
+export type PaginatorControl = 'first' | 'prev' | 'page' | 'next' | 'last' | 'jump';
+
+/**
+ * What happens to a paginator's components when it ends
+ * - `remove`: the components are removed
+ * - `disable`: the components stay, disabled
+ * - `keep`: the components are left untouched
+ */
+export type PaginatorEndBehavior = 'remove' | 'disable' | 'keep';
+
+/**
+ * Configuration options for a {@link Paginator}
+ */
+export interface PaginatorOptions extends PageSourceOptions {
+  /** Time in ms before the paginator ends (default: 60000) */
+  timeout?: number;
+  /** The initial page index to display (default: 0) */
+  startPage?: number;
+  /** If set, only this user can use the controls */
+  userId?: string;
+  /** Whether an interaction response is only visible to the interaction's user; ignored for channels */
+  ephemeral?: boolean;
+  /** The locale of the page indicator (default: the interaction's or guild's locale) */
+  locale?: LocaleSource;
+  /** The built-in controls, in order (default: prev, page, next) */
+  controls?: PaginatorControl[];
+  /** Custom buttons added after the built-in controls */
+  buttons?: ButtonOption[];
+  /** Adds a select menu listing these titles, one per page; at most 25 */
+  pageTitles?: string[];
+  /** Whether turning past the last page goes back to the first, and vice versa (default: false) */
+  loop?: boolean;
+  /** Whether the page indicator is set as the footer of the page's first embed (default: false) */
+  footer?: boolean;
+  /** What happens to the components when the paginator ends (default: 'remove') */
+  endBehavior?: PaginatorEndBehavior;
+  /** The name timeouts are recorded under in the metrics (default: 'Paginator') */
+  name?: string;
+  /** Sends the paginator to a channel through a queue; interaction responses and page turns are not queued */
+  queue?: SendQueue;
+  /**
+   * The registered page source and data key encoded in the custom IDs instead of keeping a collector
+   * @internal
+   */
+  stateless?: { source: string; key: string };
+}
+
+/**
+ * The events of a {@link Paginator}
+ */
+export interface PaginatorEvents {
+  /** A user turned the page; `previous` is the page shown before */
+  pageChange: [page: number, previous: number, interaction: RepliableInteraction];
+  /** The paginator ended and its components were updated; `reason` is 'time' after a timeout */
+  end: [reason: string];
+  /** A page failed to render or the message could not be updated; logged when nobody listens */
+  error: [error: unknown];
+}
+
+type ControlState = 'active' | 'loading' | 'disabled';
+
+// A select menu lists at most 25 options, an action row holds at most 5 buttons, and a custom ID at most 100 characters
+const MAX_SELECT_OPTIONS = 25;
+const MAX_ROW_BUTTONS = 5;
+const MAX_CUSTOM_ID_LENGTH = 100;
+
+// Custom IDs of stateless paginators: `pgs:<source>:<control>:<page>:<user ID>:<key>`
+const STATELESS_PREFIX = 'pgs:';
+
+const CONTROL_BUTTONS: Record<Exclude<PaginatorControl, 'page'>, { label: string; style: ButtonStyle }> = {
+  first: { label: '⏮️', style: ButtonStyle.Secondary },
+  prev: { label: '◀️', style: ButtonStyle.Primary },
+  next: { label: '▶️', style: ButtonStyle.Primary },
+  last: { label: '⏭️', style: ButtonStyle.Secondary },
+  jump: { label: '🔢', style: ButtonStyle.Secondary }
+};
+
+/**
+ * Shows pages one at a time in a message, with buttons to turn them
+ * @class
+ * @description Pages can be given up front or rendered on demand by a {@link PageProvider}. Every control's
+ * custom ID starts with a prefix unique to the paginator, so several paginators, or other components, can
+ * share a message. Pages are never modified: the page indicator is added to a copy of the page's embed.
+ * @example
+ * const paginator = new Paginator(results.map(formatResult), {
+ *   userId: interaction.user.id,
+ *   controls: ['first', 'prev', 'page', 'next', 'last'],
+ *   endBehavior: 'disable'
+ * });
+ *
+ * paginator.on('pageChange', (page) => console.log(`Showing page ${page + 1}`));
+ * paginator.on('end', (reason) => console.log(`Paginator ended: ${reason}`));
+ *
+ * await paginator.send(interaction);
+ *
+ * // Later, e.g. when the results are deleted
+ * paginator.stop();
+ */
+export class Paginator extends EventEmitter<PaginatorEvents> {
+  private readonly source: PageSource<PaginatorPage>;
+  private readonly options: PaginatorOptions;
+  private readonly prefix: string;
+  private pageIndex: number;
+  private page: PaginatorPage | null = null;
+  private locale: LocaleSource = null;
+  private pagination: PaginationMessage | null = null;
+  private collector: InteractionCollector<CollectedMessageInteraction> | null = null;
+
+  /**
+   * @param pages - The pages, or a provider that renders a page by index
+   * @param options - Configuration options for the paginator
+   */
+  constructor(pages: PaginatorPage[] | PageProvider<PaginatorPage>, options: PaginatorOptions = {}) {
+    super();
+
+    if ((options.pageTitles?.length ?? 0) > MAX_SELECT_OPTIONS) {
+      throw new Error(`A page select menu can list at most ${MAX_SELECT_OPTIONS} pages`);
+    }
+
+    this.source = new PageSource(pages, options);
+    this.options = options;
+    this.prefix = `paginator:${SnowflakeUtil.generate()}:`;
+    this.pageIndex = Math.min(options.startPage ?? 0, Math.max(0, (this.source.total ?? Infinity) - 1));
+  }
+
+  /**
+   * The index of the page shown
+   */
+  public get currentPage(): number {
+    return this.pageIndex;
+  }
+
+  /**
+   * The paginator message, or null before it was sent
+   */
+  public get message(): Message | null {
+    return this.pagination?.message ?? null;
+  }
+
+  /**
+   * Whether the paginator was sent and has ended
+   */
+  public get ended(): boolean {
+    return this.collector?.ended ?? false;
+  }
+
+  /**
+   * Gets the custom ID of one of the paginator's controls
+   * @param control - A built-in control, `select`, or the ID of a custom button
+   * @returns {string} - The namespaced custom ID
+   * @example
+   * await harness.clickButton(paginator.message!, alice, paginator.customId('next'));
+   */
+  public customId(control: PaginatorControl | 'select' | (string & {})): string {
+    if (!this.options.stateless) {
+      return `${this.prefix}${control}`;
+    }
+
+    const { source, key } = this.options.stateless;
+    const customId = `${STATELESS_PREFIX}${source}:${control}:${this.pageIndex}:${this.options.userId ?? ''}:${key}`;
+
+    if (customId.length > MAX_CUSTOM_ID_LENGTH) {
+      throw new Error(`The custom ID "${customId}" is longer than ${MAX_CUSTOM_ID_LENGTH} characters; use a shorter data key`);
+    }
+
+    return customId;
+  }
+
+  /**
+   * Sends the paginator to a channel, or as the response to an interaction, and starts listening to its controls
+   * @param target - The channel to send the paginator to, or the interaction to reply to
+   * @returns {Promise<Message>} - The paginator message
+   * @description A deferred interaction gets its reply edited. Ephemeral responses can only be edited through
+   * the interaction token, so their controls stop working just before the token expires 15 minutes after
+   * the interaction was created.
+   */
+  public async send(target: PaginationTarget): Promise<Message> {
+    if (this.pagination) {
+      throw new Error('The paginator was already sent');
+    }
+
+    this.locale = this.options.locale ?? (target instanceof BaseInteraction ? target : 'guild' in target ? target.guild : null);
+
+    const page = await this.source.get(this.pageIndex);
+    if (page === null) {
+      throw new Error(`No page at index ${this.pageIndex}`);
+    }
+
+    this.page = page;
+    this.pagination = await sendPaginationMessage(target, this.render('active'), this.options.ephemeral, this.options.queue);
+
+    const { message } = this.pagination;
+
+    // Stateless paginators are answered by the paginator registry, for as long as the message exists
+    if (this.options.stateless) {
+      return message;
+    }
+
+    const collector = message.createMessageComponentCollector({
+      filter: interaction => interaction.customId.startsWith(this.prefix),
+      time: this.pagination.clampTimeout(this.options.timeout ?? 60000)
+    });
+
+    collector.on('collect', async interaction => {
+      try {
+        if (await this.authorize(interaction)) {
+          await this.handle(interaction, interaction.customId.slice(this.prefix.length));
+        }
+      } catch (error) {
+        this.report(error);
+      }
+    });
+    collector.on('end', (_collected, reason) => {
+      this.finish(reason).catch(error => this.report(error));
+    });
+
+    this.collector = collector;
+    return message;
+  }
+
+  /**
+   * Ends the paginator, applying its end behavior; has no effect before it was sent or once it ended
+   * @param reason - The reason passed to the `end` event (default: 'user')
+   */
+  public stop(reason = 'user'): void {
+    if (this.collector && !this.collector.ended) {
+      this.collector.stop(reason);
+    }
+  }
+
+  /**
+   * Answers a control of a stateless paginator, rebuilt from its custom ID
+   * @internal
+   */
+  public async resume(interaction: CollectedMessageInteraction, control: string): Promise<void> {
+    this.locale = this.options.locale ?? interaction;
+
+    if (!(await this.authorize(interaction))) return;
+
+    const page = await this.source.get(this.pageIndex).catch((error) => {
+      this.report(error);
+      return null;
+    });
+
+    if (page === null) {
+      await interaction.reply({
+        content: t('paginator.unavailable', {}, interaction),
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    this.page = page;
+    await this.handle(interaction, control);
+  }
+
+  /**
+   * Checks whether a user may use the controls, telling them if they may not
+   */
+  private async authorize(interaction: CollectedMessageInteraction): Promise<boolean> {
+    const { userId } = this.options;
+
+    if (userId && interaction.user.id !== userId) {
+      await interaction.reply({
+        content: t('paginator.unauthorized', {}, interaction),
+        flags: MessageFlags.Ephemeral
+      });
+      return false;
+    }
+
+    return true;
+  }
+
+  private async handle(interaction: CollectedMessageInteraction, control: string): Promise<void> {
+
+    // A modal has to be the first response to the interaction, so it cannot be deferred
+    if (control === 'jump') {
+      await this.jumpToPage(interaction);
+      return;
+    }
+
+    await interaction.deferUpdate();
+
+    const total = this.source.total;
+    const loop = this.options.loop ?? false;
+    let requestedPage = this.pageIndex;
+
+    switch (control) {
+      case 'first':
+        requestedPage = 0;
+        break;
+      case 'prev':
+        requestedPage = this.pageIndex > 0 ? this.pageIndex - 1 : loop && total !== null ? total - 1 : 0;
+        break;
+      case 'next':
+        requestedPage = this.source.hasNext(this.pageIndex) ? this.pageIndex + 1 : loop ? 0 : this.pageIndex;
+        break;
+      case 'last':
+        requestedPage = total !== null ? total - 1 : this.pageIndex;
+        break;
+      case 'select':
+        if (interaction.isStringSelectMenu()) {
+          requestedPage = Number(interaction.values[0]);
+        }
+        break;
+      default:
+        const customButton = this.options.buttons?.find(button => button.id === control);
+        if (customButton) {
+          requestedPage = customButton.callback(this.pageIndex);
+        }
+    }
+
+    await this.showPage(interaction, requestedPage);
+  }
+
+  /**
+   * Asks for a page number in a modal and shows that page
+   */
+  private async jumpToPage(interaction: CollectedMessageInteraction): Promise<void> {
+    const modalId = `${this.prefix}jump:${interaction.id}`;
+    const total = this.source.total;
+
+    await interaction.showModal(createModal({
+      customId: modalId,
+      title: t('paginator.jump', {}, interaction),
+      components: [{
+        customId: 'page',
+        label: t('paginator.jumpLabel', { total: total ?? 'unknown' }, interaction),
+        style: 'SHORT',
+        placeholder: total !== null ? `1-${total}` : undefined,
+        required: true,
+        maxLength: 9
+      }]
+    }));
+
+    const submit = await interaction.awaitModalSubmit({
+      filter: modal => modal.customId === modalId,
+      time: this.pagination?.clampTimeout(this.options.timeout ?? 60000) ?? this.options.timeout ?? 60000
+    }).catch(() => null);
+
+    if (!submit?.isFromMessage()) return;
+
+    const value = submit.fields.getTextInputValue('page').trim();
+    const requestedPage = Number(value) - 1;
+
+    if (!/^\d+$/.test(value) || !this.source.exists(requestedPage)) {
+      await submit.reply({
+        content: t('paginator.invalidPage', { page: value }, submit),
+        flags: MessageFlags.Ephemeral
+      });
+      return;
+    }
+
+    await submit.deferUpdate();
+
+    if (!(await this.showPage(submit, requestedPage))) {
+      await submit.followUp({
+        content: t('paginator.invalidPage', { page: value }, submit),
+        flags: MessageFlags.Ephemeral
+      });
+    }
+  }
+
+  /**
+   * Shows a page in response to an interaction that has been deferred, and reports whether it exists
+   */
+  private async showPage(
+    interaction: CollectedMessageInteraction | ModalMessageModalSubmitInteraction,
+    requestedPage: number
+  ): Promise<boolean> {
+    // The paginator may have ended while a modal was open or a page was loading
+    if (this.ended) return true;
+
+    if (!this.source.isCached(requestedPage)) {
+      await interaction.editReply(this.toEditOptions(this.render('loading')));
+    }
+
+    const requested = await this.source.get(requestedPage).catch((error) => {
+      this.report(error);
+      return null;
+    });
+
+    if (this.ended) return requested !== null;
+
+    const previous = this.pageIndex;
+    if (requested !== null) {
+      this.page = requested;
+      this.pageIndex = requestedPage;
+    }
+
+    await interaction.editReply(this.toEditOptions(this.render('active')));
+
+    if (requested !== null && requestedPage !== previous) {
+      this.emit('pageChange', requestedPage, previous, interaction);
+    }
+
+    return requested !== null;
+  }
+
+  private async finish(reason: string): Promise<void> {
+    if (reason === 'time') {
+      getMetricsCollector()?.recordPaginatorTimeout(this.options.name ?? 'Paginator');
+    }
+
+    const endBehavior = this.options.endBehavior ?? 'remove';
+
+    if (endBehavior !== 'keep') {
+      await this.pagination!.edit({
+        components: endBehavior === 'disable' ? this.buildComponents('disabled') : []
+      }).catch(error => this.report(error));
+    }
+
+    this.emit('end', reason);
+  }
+
+  private report(error: unknown): void {
+    if (this.listenerCount('error')) {
+      this.emit('error', error);
+    } else {
+      console.error('Paginator failed:', error);
+    }
+  }
+
+  private indicator(state: ControlState, footer: boolean): string {
+    if (state === 'loading') {
+      return t('paginator.loading', {}, this.locale);
+    }
+
+    const page = this.pageIndex + 1;
+    const total = this.source.total ?? '?';
+    return footer ? t('paginator.page', { page, total }, this.locale) : `${page}/${total}`;
+  }
+
+  /**
+   * Renders the shown page with the controls, without modifying the page
+   */
+  private render(state: ControlState): MessageCreateOptions {
+    const page = this.page!;
+    const options: MessageCreateOptions = typeof page === 'string'
+      ? { content: page }
+      : page instanceof EmbedBuilder ? { embeds: [page] } : { ...page };
+
+    if (this.options.footer && options.embeds?.length) {
+      const [first, ...rest] = options.embeds;
+      const embed = new EmbedBuilder(isJSONEncodable(first) ? first.toJSON() : first);
+
+      options.embeds = [embed.setFooter({ text: this.indicator(state, true) }), ...rest];
+    }
+
+    return { ...options, components: this.buildComponents(state) };
+  }
+
+  private toEditOptions(options: MessageCreateOptions): MessageEditOptions {
+    const { files, flags, reply, stickers, nonce, enforceNonce, ...rest } = options;
+    return rest as MessageEditOptions;
+  }
+
+  private buildComponents(state: ControlState) {
+    const index = this.pageIndex;
+    const total = this.source.total;
+    const loop = this.options.loop ?? false;
+    // While a page loads, and after the paginator ended, every control is disabled
+    const inactive = state !== 'active';
+
+    const isNoop: Record<Exclude<PaginatorControl, 'page'>, boolean> = {
+      first: index === 0,
+      prev: index === 0 && !(loop && total !== null && total > 1),
+      next: !this.source.hasNext(index) && !(loop && index > 0),
+      last: total === null || index === total - 1,
+      jump: total === 1
+    };
+
+    const controls = (this.options.controls ?? ['prev', 'page', 'next']).map(control => control === 'page'
+      ? {
+          type: 2,
+          style: ButtonStyle.Secondary,
+          label: this.indicator(state, false),
+          custom_id: this.customId('page'),
+          disabled: true
+        }
+      : {
+          type: 2,
+          style: CONTROL_BUTTONS[control].style,
+          label: CONTROL_BUTTONS[control].label,
+          custom_id: this.customId(control),
+          disabled: inactive || isNoop[control]
+        });
+
+    const extra = (this.options.buttons ?? []).map((btn) => ({
+      type: 2,
+      style: btn.style,
+      label: btn.label,
+      custom_id: this.customId(btn.id),
+      disabled: inactive
+    }));
+
+    const allButtons = [...controls, ...extra];
+    const rows = [];
+
+    for (let i = 0; i < allButtons.length; i += MAX_ROW_BUTTONS) {
+      rows.push({
+        type: 1,
+        components: allButtons.slice(i, i + MAX_ROW_BUTTONS)
+      });
+    }
+
+    if (this.options.pageTitles?.length) {
+      rows.push(createSelectMenu({
+        customId: this.customId('select'),
+        placeholder: t('paginator.selectPage', {}, this.locale),
+        disabled: inactive,
+        choices: this.options.pageTitles.map((title, pageIndex) => ({
+          label: title.slice(0, 100),
+          value: String(pageIndex),
+          default: pageIndex === index
+        }))
+      }).toJSON());
+    }
+
+    return rows;
+  }
+}
+
+/**
+ * A page source registered for stateless paginators
+ */
+export interface StatelessPageSource extends Omit<
+  PaginatorOptions,
+  'timeout' | 'startPage' | 'userId' | 'ephemeral' | 'total' | 'cacheSize' | 'endBehavior' | 'name' | 'queue' | 'stateless'
+> {
+  /** Renders a page of the data identified by a key; returning null marks the end of the pages */
+  render: (key: string, index: number) => Promise<PaginatorPage | null | undefined> | PaginatorPage | null | undefined;
+  /** The number of pages of the data identified by a key, if known */
+  total?: (key: string) => Promise<number | null> | number | null;
+}
+
+/**
+ * Paginators whose state lives in their custom IDs, so they keep working after the bot restarts
+ * @class
+ * @description The page index, the user allowed to turn pages and a data key are encoded in the custom ID of
+ * every control. When a control is used, the registry renders the requested page again with the page source
+ * registered under the name in the custom ID. Page sources have to be registered at startup, before
+ * interactions are handled, and the data key, at most around 50 characters, must identify the paginated data.
+ * @example
+ * paginatorRegistry.register('leaderboard', {
+ *   render: async (guildId, index) => {
+ *     const rows = await db.scores.find({ guildId, skip: index * 10, take: 10 });
+ *     return rows.length ? buildEmbed({ title: 'Leaderboard', description: formatScores(rows) }) : null;
+ *   },
+ *   total: async (guildId) => Math.ceil(await db.scores.count({ guildId }) / 10),
+ *   controls: ['first', 'prev', 'page', 'next', 'last']
+ * });
+ *
+ * client.on('interactionCreate', (interaction) => paginatorRegistry.handle(interaction));
+ *
+ * // In a command
+ * await paginatorRegistry.send(interaction, 'leaderboard', interaction.guildId!);
+ */
+export class PaginatorRegistry {
+  private readonly sources: Map<string, StatelessPageSource> = new Map();
+
+  /**
+   * Registers a page source
+   * @param name - The name of the page source; it is part of the custom IDs, so keep it short
+   * @param source - Renders the pages and configures the controls
+   * @returns {this} - The registry, for chaining
+   */
+  public register(name: string, source: StatelessPageSource): this {
+    if (!name || name.includes(':')) {
+      throw new Error(`Invalid page source name "${name}"; it must not be empty or contain ":"`);
+    }
+
+    if (source.buttons?.some(button => button.id.includes(':'))) {
+      throw new Error(`The custom button IDs of page source "${name}" must not contain ":"`);
+    }
+
+    if (this.sources.has(name)) {
+      throw new Error(`A page source named "${name}" is already registered`);
+    }
+
+    this.sources.set(name, source);
+    return this;
+  }
+
+  /**
+   * Sends a stateless paginator of a registered page source
+   * @param target - The channel to send the paginator to, or the interaction to reply to
+   * @param name - The name of the page source
+   * @param key - Identifies the data the page source renders, e.g. a guild or search ID
+   * @param options - Configuration options for the paginator
+   * @param options.startPage - The initial page index to display (default: 0)
+   * @param options.userId - If set, only this user can use the controls
+   * @param options.ephemeral - Whether an interaction response is only visible to the interaction's user
+   * @param options.locale - The locale of the page indicator (default: the interaction's or guild's locale)
+   * @param options.queue - Sends the paginator to a channel through a {@link SendQueue}
+   * @returns {Promise<Message>} - The paginator message
+   * @example
+   * await paginatorRegistry.send(interaction, 'search', searchId, { userId: interaction.user.id });
+   */
+  public async send(
+    target: PaginationTarget,
+    name: string,
+    key: string,
+    options: { startPage?: number; userId?: string; ephemeral?: boolean; locale?: LocaleSource; queue?: SendQueue } = {}
+  ): Promise<Message> {
+    const paginator = await this.create(name, key, options);
+    return paginator.send(target);
+  }
+
+  /**
+   * Answers the controls of stateless paginators
+   * @param interaction - The interaction received from the gateway
+   * @returns {Promise<boolean>} - True if the interaction was a control of a registered page source
+   * @description Controls of page sources that are no longer registered are left unanswered. If the page
+   * source or the response fails, the error is logged and the user is told the page is unavailable.
+   */
+  public async handle(interaction: Interaction): Promise<boolean> {
+    if (!interaction.isButton() && !interaction.isStringSelectMenu()) {
+      return false;
+    }
+
+    const match = interaction.customId.match(/^pgs:([^:]+):([^:]+):(\d+):(\d*):(.*)$/s);
+    if (!match || !this.sources.has(match[1])) {
+      return false;
+    }
+
+    const [, name, control, page, userId, key] = match;
+
+    try {
+      const paginator = await this.create(name, key, { startPage: Number(page), userId: userId || undefined });
+      await paginator.resume(interaction, control);
+    } catch (error) {
+      console.error('Paginator failed:', error);
+
+      const response = { content: t('paginator.unavailable', {}, interaction), flags: MessageFlags.Ephemeral } as const;
+      await (interaction.replied || interaction.deferred
+        ? interaction.followUp(response)
+        : interaction.reply(response)
+      ).catch(() => null);
+    }
+
+    return true;
+  }
+
+  private async create(
+    name: string,
+    key: string,
+    options: { startPage?: number; userId?: string; ephemeral?: boolean; locale?: LocaleSource; queue?: SendQueue }
+  ): Promise<Paginator> {
+    const source = this.sources.get(name);
+    if (!source) {
+      throw new Error(`No page source named "${name}" is registered`);
+    }
+
+    const { render, total, ...paginatorOptions } = source;
+
+    return new Paginator(index => render(key, index), {
+      ...paginatorOptions,
+      ...options,
+      total: (await total?.(key)) ?? undefined,
+      // Every click renders the page again, so there is nothing worth caching
+      cacheSize: 1,
+      stateless: { source: name, key }
+    });
+  }
+}
+
+// Singleton instance for stateless paginators
+export const paginatorRegistry = new PaginatorRegistry();
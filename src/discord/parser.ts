@@ -0,0 +1,374 @@
+import { Message } from 'discord.js';
+import {
+  CHANNEL_MENTION_PATTERN,
+  ROLE_MENTION_PATTERN,
+  USER_MENTION_PATTERN,
+  parseDuration,
+} from './formatting';
+import { LocaleSource, t } from './i18n';
+
+/**
+ * The types a text command argument or flag value can be coerced into
+ * - `user`, `role` and `channel` accept a mention or a raw ID and resolve to the ID
+ * - `duration` accepts values such as "10m" or "1h30m" and resolves to milliseconds
+ * - `rest` consumes the remainder of the line as-is (arguments only)
+ */
+export type ArgumentType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'duration'
+  | 'user'
+  | 'role'
+  | 'channel'
+  | 'rest';
+
+/**
+ * A positional argument of a text command
+ */
+export interface ArgumentDefinition {
+  type: ArgumentType;
+  required?: boolean;
+}
+
+/**
+ * A `--flag` of a text command; boolean flags are switches and take no value
+ */
+export interface FlagDefinition {
+  type: Exclude<ArgumentType, 'rest'>;
+  short?: string;
+}
+
+type ArgumentValue<T extends ArgumentType> =
+  T extends 'number' | 'integer' | 'duration' ? number
+  : T extends 'boolean' ? boolean
+  : string;
+
+/**
+ * The parsed arguments of a text command, keyed by argument name
+ */
+export type ParsedArguments<A extends Record<string, ArgumentDefinition>> = {
+  [K in keyof A]: A[K] extends { required: true } ? ArgumentValue<A[K]['type']> : ArgumentValue<A[K]['type']> | null;
+};
+
+/**
+ * The parsed flags of a text command, keyed by flag name; absent boolean flags are false
+ */
+export type ParsedFlags<F extends Record<string, FlagDefinition>> = {
+  [K in keyof F]: F[K]['type'] extends 'boolean' ? boolean : ArgumentValue<F[K]['type']> | null;
+};
+
+type Token = { value: string; start: number; quoted: boolean };
+
+const QUOTES: Record<string, string> = { '"': '"', "'": "'", '“': '”', '‘': '’' };
+
+function anchored(pattern: RegExp): RegExp {
+  return new RegExp(`^${pattern.source}$`);
+}
+
+const USER_ARGUMENT = anchored(USER_MENTION_PATTERN);
+const ROLE_ARGUMENT = anchored(ROLE_MENTION_PATTERN);
+const CHANNEL_ARGUMENT = anchored(CHANNEL_MENTION_PATTERN);
+const SNOWFLAKE = /^\d{17,20}$/;
+
+/**
+ * Splits command input into tokens, honouring quotes and backslash escapes
+ */
+function tokenize(input: string, locale: LocaleSource): Token[] | string {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    while (index < input.length && /\s/.test(input[index])) {
+      index++;
+    }
+
+    if (index >= input.length) {
+      break;
+    }
+
+    const start = index;
+    const closing = QUOTES[input[index]];
+    let value = '';
+
+    if (closing) {
+      index++;
+      while (index < input.length && input[index] !== closing) {
+        if (input[index] === '\\' && index + 1 < input.length) {
+          index++;
+        }
+        value += input[index++];
+      }
+
+      if (index >= input.length) {
+        return t('parser.unterminatedQuote', {}, locale);
+      }
+
+      index++;
+      tokens.push({ value, start, quoted: true });
+      continue;
+    }
+
+    while (index < input.length && !/\s/.test(input[index])) {
+      if (input[index] === '\\' && index + 1 < input.length) {
+        index++;
+      }
+      value += input[index++];
+    }
+
+    tokens.push({ value, start, quoted: false });
+  }
+
+  return tokens;
+}
+
+function coerce(value: string, type: ArgumentType, name: string, locale: LocaleSource): { value: unknown } | { error: string } {
+  switch (type) {
+    case 'number':
+    case 'integer': {
+      const number = Number(value);
+      if (value.trim() === '' || !Number.isFinite(number) || (type === 'integer' && !Number.isInteger(number))) {
+        return { error: t(type === 'integer' ? 'parser.invalidInteger' : 'parser.invalidNumber', { value, name }, locale) };
+      }
+      return { value: number };
+    }
+    case 'boolean': {
+      const normalized = value.toLowerCase();
+      if (['true', 'yes', 'y', 'on', '1'].includes(normalized)) return { value: true };
+      if (['false', 'no', 'n', 'off', '0'].includes(normalized)) return { value: false };
+      return { error: t('parser.invalidBoolean', { value, name }, locale) };
+    }
+    case 'duration': {
+      const duration = parseDuration(value);
+      return duration === null
+        ? { error: t('parser.invalidDuration', { value, name }, locale) }
+        : { value: duration };
+    }
+    case 'user':
+    case 'role':
+    case 'channel': {
+      const pattern = type === 'user' ? USER_ARGUMENT : type === 'role' ? ROLE_ARGUMENT : CHANNEL_ARGUMENT;
+      const id = value.match(pattern)?.[1] ?? (SNOWFLAKE.test(value) ? value : null);
+      return id ? { value: id } : { error: t('parser.invalidMention', { value, name, type }, locale) };
+    }
+    default:
+      return { value };
+  }
+}
+
+/**
+ * Parses a prefixed text command such as `!ban @user --days 7 "spamming links"`
+ * @param input - The message, or its raw content
+ * @param options - Configuration options for the parser
+ * @param options.prefixes - Prefixes that start a command (e.g. ['!', '?'])
+ * @param options.mentionPrefix - Whether mentioning the bot also works as a prefix (default: false)
+ * @param options.botId - The bot's user ID, required for mention prefixes when input is a string
+ * @param options.caseInsensitive - Whether prefixes are matched case-insensitively (default: true)
+ * @param options.args - Positional arguments, in order, keyed by name
+ * @param options.flags - Flags keyed by their long name, usable as `--name value`, `--name=value` or `-s value`
+ * @param options.locale - The locale of the error messages (default: the message's guild locale)
+ * @returns {object | null} - Null when the input is not a command, otherwise the parsed command or a user-facing error
+ * @example
+ * client.on('messageCreate', async (message) => {
+ *   const parsed = parseCommandMessage(message, {
+ *     prefixes: ['!'],
+ *     mentionPrefix: true,
+ *     args: {
+ *       target: { type: 'user', required: true },
+ *       reason: { type: 'rest' }
+ *     },
+ *     flags: {
+ *       days: { type: 'integer', short: 'd' },
+ *       silent: { type: 'boolean', short: 's' }
+ *     }
+ *   });
+ *
+ *   if (!parsed || parsed.command !== 'ban') return;
+ *
+ *   if (!parsed.success) {
+ *     return message.reply(parsed.error);
+ *   }
+ *
+ *   const { target, reason } = parsed.args; // target: string (user ID), reason: string | null
+ *   const { days, silent } = parsed.flags;   // days: number | null, silent: boolean
+ * });
+ */
+export function parseCommandMessage<
+  A extends Record<string, ArgumentDefinition> = {},
+  F extends Record<string, FlagDefinition> = {}
+>(
+  input: Message | string,
+  options: {
+    prefixes: string[];
+    mentionPrefix?: boolean;
+    botId?: string;
+    caseInsensitive?: boolean;
+    args?: A;
+    flags?: F;
+    locale?: LocaleSource;
+  }
+):
+  | { success: true; command: string; args: ParsedArguments<A>; flags: ParsedFlags<F> }
+  | { success: false; command: string; error: string }
+  | null {
+  const content = typeof input === 'string' ? input : input.content;
+  const botId = options.botId ?? (typeof input === 'string' ? undefined : input.client.user?.id);
+  const { caseInsensitive = true } = options;
+  const locale = options.locale ?? (typeof input === 'string' ? undefined : input.guild);
+
+  let body: string | null = null;
+
+  for (const prefix of options.prefixes) {
+    const head = content.slice(0, prefix.length);
+    if (prefix && (caseInsensitive ? head.toLowerCase() === prefix.toLowerCase() : head === prefix)) {
+      body = content.slice(prefix.length);
+      break;
+    }
+  }
+
+  if (body === null && options.mentionPrefix && botId) {
+    const mention = content.match(new RegExp(`^<@!?${botId}>`));
+    if (mention) {
+      body = content.slice(mention[0].length);
+    }
+  }
+
+  if (body === null) {
+    return null;
+  }
+
+  const commandMatch = body.match(/^\s*(\S+)/);
+  if (!commandMatch) {
+    return null;
+  }
+
+  const command = commandMatch[1].toLowerCase();
+  const argumentText = body.slice(commandMatch[0].length);
+  const tokens = tokenize(argumentText, locale);
+
+  if (typeof tokens === 'string') {
+    return { success: false, command, error: tokens };
+  }
+
+  const argumentDefinitions: Array<[string, ArgumentDefinition]> = Object.entries(options.args ?? {});
+  const flagDefinitions: Record<string, FlagDefinition> = options.flags ?? {};
+  const args: Record<string, unknown> = {};
+  const flags: Record<string, unknown> = {};
+  const positional: Token[] = [];
+  let restStart: number | null = null;
+  const restIndex = argumentDefinitions.findIndex(([, definition]) => definition.type === 'rest');
+
+  for (const [name, definition] of Object.entries(flagDefinitions)) {
+    flags[name] = definition.type === 'boolean' ? false : null;
+  }
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+
+    if (token.quoted || !token.value.startsWith('-') || token.value === '-' || /^-\d/.test(token.value)) {
+      // Everything from the rest argument onwards is kept verbatim, flags included
+      if (positional.length === restIndex) {
+        restStart = token.start;
+        break;
+      }
+
+      positional.push(token);
+      continue;
+    }
+
+    // After `--` nothing is a flag: the tokens fill the positional arguments, then the rest argument
+    if (token.value === '--') {
+      const remaining = tokens.slice(index + 1);
+      const count = restIndex === -1 ? remaining.length : restIndex - positional.length;
+
+      positional.push(...remaining.slice(0, count));
+      if (remaining.length > count) {
+        restStart = remaining[count].start;
+      }
+      break;
+    }
+
+    let names: string[];
+    let inlineValue: string | null = null;
+
+    if (token.value.startsWith('--')) {
+      const [name, ...value] = token.value.slice(2).split('=');
+      names = [name];
+      inlineValue = value.length ? value.join('=') : null;
+    } else {
+      names = token.value.slice(1).split('').map(short =>
+        Object.keys(flagDefinitions).find(name => flagDefinitions[name].short === short) ?? `-${short}`
+      );
+    }
+
+    for (const name of names) {
+      const definition = flagDefinitions[name];
+      const label = name.startsWith('-') ? name : `--${name}`;
+
+      if (!definition) {
+        return { success: false, command, error: t('parser.unknownFlag', { flag: label }, locale) };
+      }
+
+      if (definition.type === 'boolean' && inlineValue === null) {
+        flags[name] = true;
+        continue;
+      }
+
+      const raw = inlineValue ?? tokens[++index]?.value;
+      if (raw === undefined) {
+        return { success: false, command, error: t('parser.flagValue', { flag: label }, locale) };
+      }
+
+      const result = coerce(raw, definition.type, label, locale);
+      if ('error' in result) {
+        return { success: false, command, error: result.error };
+      }
+
+      flags[name] = result.value;
+    }
+  }
+
+  for (const [position, [name, definition]] of argumentDefinitions.entries()) {
+    if (definition.type === 'rest') {
+      const rest = restStart === null ? '' : argumentText.slice(restStart).trim();
+
+      if (!rest && definition.required) {
+        return { success: false, command, error: t('parser.missingArgument', { name }, locale) };
+      }
+
+      args[name] = rest || null;
+      continue;
+    }
+
+    const token = positional[position];
+
+    if (!token) {
+      if (definition.required) {
+        return { success: false, command, error: t('parser.missingArgument', { name }, locale) };
+      }
+
+      args[name] = null;
+      continue;
+    }
+
+    const result = coerce(token.value, definition.type, name, locale);
+    if ('error' in result) {
+      return { success: false, command, error: result.error };
+    }
+
+    args[name] = result.value;
+  }
+
+  if (positional.length > argumentDefinitions.length) {
+    const value = positional[argumentDefinitions.length].value;
+    return { success: false, command, error: t('parser.unexpectedArgument', { value }, locale) };
+  }
+
+  return {
+    success: true,
+    command,
+    args: args as ParsedArguments<A>,
+    flags: flags as ParsedFlags<F>
+  };
+}
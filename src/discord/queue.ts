@@ -0,0 +1,290 @@
+import {
+  DiscordAPIError,
+  Message,
+  MessageCreateOptions,
+  MessagePayload,
+  MessageReplyOptions,
+  RateLimitError,
+  REST,
+  RESTEvents,
+  SendableChannels,
+} from 'discord.js';
+
+/**
+ * The order in which queued sends of a channel go out; sends of the same priority keep their order
+ */
+export type SendPriority = 'high' | 'normal' | 'low';
+
+/**
+ * Configuration options for a queued send
+ */
+export interface SendOptions {
+  /** The priority of the send (default: 'normal') */
+  priority?: SendPriority;
+  /** Cancels the send while it is still waiting in the queue */
+  signal?: AbortSignal;
+}
+
+/**
+ * The error a queued send is rejected with when it is cancelled before it went out
+ * @class
+ */
+export class SendCancelledError extends Error {
+  constructor() {
+    super('The queued send was cancelled');
+    this.name = 'SendCancelledError';
+  }
+}
+
+interface QueuedSend {
+  run: () => Promise<unknown>;
+  priority: number;
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+const PRIORITIES: Record<SendPriority, number> = { high: 0, normal: 1, low: 2 };
+
+const MESSAGES_ROUTE = /^\/channels\/(\d+)\/messages$/;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Reads how long to wait before retrying a request that was rate limited
+ */
+function getRetryAfter(error: unknown): number | null {
+  if (error instanceof RateLimitError) {
+    return error.retryAfter;
+  }
+
+  if (error instanceof DiscordAPIError && error.status === 429) {
+    const retryAfter = (error.rawError as { retry_after?: number }).retry_after;
+    return typeof retryAfter === 'number' ? retryAfter * 1000 : 1000;
+  }
+
+  return null;
+}
+
+/**
+ * Sends messages one at a time per channel, in order, waiting out rate limits
+ * @class
+ * @description Each channel has its own queue; sends to different channels do not wait for each other.
+ * A send that is rate limited waits for the time Discord asks for and is retried, before the sends queued
+ * after it. Once attached to a REST manager, the queue also pauses a channel when the bucket headers of its
+ * last message say the bucket is empty, and pauses every channel during a global rate limit.
+ * @example
+ * sendQueue.attach(client.rest);
+ *
+ * // The chunks arrive in order, even when the channel is rate limited
+ * await Promise.all(splitLongMessage(report).map(chunk => sendQueue.send(channel, chunk)));
+ *
+ * // Jump ahead of queued low-priority sends, or cancel a send that is still waiting
+ * const controller = new AbortController();
+ * sendQueue.send(channel, 'Nightly digest', { priority: 'low', signal: controller.signal });
+ * await sendQueue.send(channel, 'Server restarting in 5 minutes!', { priority: 'high' });
+ * controller.abort();
+ */
+export class SendQueue {
+  private readonly queues: Map<string, QueuedSend[]> = new Map();
+  private readonly pauses: Map<string, number> = new Map();
+  private readonly maxRetries: number;
+  private globalPauseUntil = 0;
+
+  /**
+   * @param options - Configuration options for the queue
+   * @param options.maxRetries - How many times a rate-limited send is retried before it is rejected (default: 3)
+   */
+  constructor(options: { maxRetries?: number } = {}) {
+    this.maxRetries = options.maxRetries ?? 3;
+  }
+
+  /**
+   * Queues a request to a channel
+   * @param channelId - The ID of the channel the request goes to
+   * @param task - Makes the request; it is called when every send queued before it went out
+   * @param options - Configuration options for the send
+   * @returns {Promise<T>} - Resolves with the result of the task, or rejects with its error or a {@link SendCancelledError}
+   * @example
+   * const message = await sendQueue.enqueue(thread.id, () => thread.send({ files: [report] }));
+   */
+  public enqueue<T>(channelId: string, task: () => Promise<T>, options: SendOptions = {}): Promise<T> {
+    const { priority = 'normal', signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(new SendCancelledError());
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const queue = this.queues.get(channelId) ?? [];
+      const send: QueuedSend = {
+        run: task,
+        priority: PRIORITIES[priority],
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        signal
+      };
+
+      if (signal) {
+        send.onAbort = () => {
+          const index = queue.indexOf(send);
+          if (index !== -1) {
+            queue.splice(index, 1);
+            reject(new SendCancelledError());
+          }
+        };
+        signal.addEventListener('abort', send.onAbort, { once: true });
+      }
+
+      // After every queued send of the same or a higher priority
+      const index = queue.findIndex(queued => queued.priority > send.priority);
+      queue.splice(index === -1 ? queue.length : index, 0, send);
+
+      if (!this.queues.has(channelId)) {
+        this.queues.set(channelId, queue);
+        this.drain(channelId, queue);
+      }
+    });
+  }
+
+  /**
+   * Queues a message to a channel
+   * @param channel - The channel to send the message to
+   * @param content - The content of the message
+   * @param options - Configuration options for the send
+   * @returns {Promise<Message>} - The sent message
+   */
+  public send(
+    channel: SendableChannels,
+    content: string | MessagePayload | MessageCreateOptions,
+    options?: SendOptions
+  ): Promise<Message> {
+    return this.enqueue<Message>(channel.id, () => channel.send(content), options);
+  }
+
+  /**
+   * Queues a reply to a message, in the queue of the message's channel
+   * @param message - The message to reply to
+   * @param content - The content of the reply
+   * @param options - Configuration options for the send
+   * @returns {Promise<Message>} - The reply
+   */
+  public reply(
+    message: Message,
+    content: string | MessagePayload | MessageReplyOptions,
+    options?: SendOptions
+  ): Promise<Message> {
+    return this.enqueue(message.channelId, () => message.reply(content), options);
+  }
+
+  /**
+   * Counts the sends of a channel that are waiting, not counting the one going out
+   * @param channelId - The channel ID
+   * @returns {number} - The number of waiting sends
+   */
+  public pending(channelId: string): number {
+    return this.queues.get(channelId)?.length ?? 0;
+  }
+
+  /**
+   * Cancels every waiting send of a channel; a send that is already going out is not cancelled
+   * @param channelId - The channel ID
+   */
+  public clear(channelId: string): void {
+    const queue = this.queues.get(channelId);
+
+    for (const send of queue?.splice(0) ?? []) {
+      if (send.onAbort) {
+        send.signal?.removeEventListener('abort', send.onAbort);
+      }
+      send.reject(new SendCancelledError());
+    }
+  }
+
+  /**
+   * Holds the sends of a channel for a while
+   * @param channelId - The channel ID
+   * @param duration - Time in ms to wait before the next send goes out
+   */
+  public pause(channelId: string, duration: number): void {
+    const until = Date.now() + duration;
+    this.pauses.set(channelId, Math.max(this.pauses.get(channelId) ?? 0, until));
+  }
+
+  /**
+   * Learns the rate limits of message sends from the responses of a REST manager
+   * @param rest - The REST manager the messages are sent with, usually `client.rest`
+   * @returns {this} - The queue, for chaining
+   */
+  public attach(rest: REST): this {
+    rest.on(RESTEvents.Response, (request, response) => {
+      const channelId = MESSAGES_ROUTE.exec(request.path)?.[1];
+      const remaining = response.headers.get('x-ratelimit-remaining');
+      const resetAfter = Number(response.headers.get('x-ratelimit-reset-after'));
+
+      if (request.method === 'POST' && channelId && remaining === '0' && resetAfter > 0) {
+        this.pause(channelId, resetAfter * 1000);
+      }
+    });
+
+    rest.on(RESTEvents.RateLimited, (info) => {
+      if (info.global) {
+        this.globalPauseUntil = Math.max(this.globalPauseUntil, Date.now() + info.retryAfter);
+      } else if (info.method === 'POST' && info.route === '/channels/:id/messages') {
+        this.pause(info.majorParameter, info.timeToReset);
+      }
+    });
+
+    return this;
+  }
+
+  private async drain(channelId: string, queue: QueuedSend[]): Promise<void> {
+    while (queue.length) {
+      const wait = Math.max(this.pauses.get(channelId) ?? 0, this.globalPauseUntil) - Date.now();
+
+      // A pause may be extended while waiting, so it is checked again afterwards
+      if (wait > 0) {
+        await sleep(wait);
+        continue;
+      }
+
+      this.pauses.delete(channelId);
+
+      const send = queue.shift()!;
+      if (send.onAbort) {
+        send.signal?.removeEventListener('abort', send.onAbort);
+      }
+
+      try {
+        send.resolve(await this.run(channelId, send));
+      } catch (error) {
+        send.reject(error);
+      }
+    }
+
+    this.queues.delete(channelId);
+  }
+
+  private async run(channelId: string, send: QueuedSend): Promise<unknown> {
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await send.run();
+      } catch (error) {
+        const retryAfter = getRetryAfter(error);
+
+        if (retryAfter === null || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        this.pause(channelId, retryAfter);
+        await sleep(retryAfter);
+      }
+    }
+  }
+}
+
+// Singleton instance for queued sends
+export const sendQueue = new SendQueue();
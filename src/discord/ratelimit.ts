@@ -0,0 +1,301 @@
+import {
+  CooldownBypass,
+  CooldownContext,
+  CooldownScope,
+  CooldownTarget,
+  getCooldownKey,
+  isCooldownBypassed,
+  resolveCooldownContext,
+} from './command';
+
+/**
+ * Per-command rate limit configuration
+ * - `sliding-window`: at most `limit` uses in any `window` milliseconds
+ * - `token-bucket`: `limit` uses per `window` on average, with bursts of up to `burst` uses
+ */
+export interface RateLimitOptions {
+  strategy: 'sliding-window' | 'token-bucket';
+  limit: number;
+  window: number;
+  burst?: number;
+  scope?: CooldownScope;
+  bypass?: CooldownBypass;
+}
+
+/**
+ * The outcome of a rate limit check
+ */
+export interface RateLimitResult {
+  /** Whether the use is rejected */
+  limited: boolean;
+  /** How many uses are left right now */
+  remaining: number;
+  /**
+   * The most uses available at once: the per-window `limit` of a sliding window, or the capacity (`burst`) of a
+   * token bucket, which refills at `limit` uses per `window`
+   */
+  limit: number;
+  /** Time in milliseconds until the next use is allowed, or 0 if it is allowed now */
+  retryAfter: number;
+  /** Time in milliseconds until every use is available again */
+  resetAfter: number;
+  /** The scope the limit is shared across */
+  scope: CooldownScope;
+  /** Whether a bypass rule exempted the invoker */
+  bypassed: boolean;
+}
+
+/**
+ * Limits commands to a number of uses per time window
+ * @class
+ * @description Works alongside {@link CooldownManager} and shares its keying model (scopes and bypass rules),
+ * so each command can pick either strategy. Recorded uses are forgotten once they no longer count, by a periodic
+ * sweeper whose timer does not keep the process alive.
+ * @example
+ * // 5 uses per minute per user, with bursts of at most 3
+ * rateLimiter.configure('search', {
+ *   strategy: 'token-bucket',
+ *   limit: 5,
+ *   window: 60000,
+ *   burst: 3
+ * });
+ *
+ * const result = rateLimiter.consume(interaction, 'search');
+ *
+ * if (result.limited) {
+ *   return interaction.reply(`Slow down! Try again in ${Math.ceil(result.retryAfter / 1000)}s.`);
+ * }
+ *
+ * await interaction.reply(
+ *   `${result.remaining}/${result.limit} left, resets in ${Math.ceil(result.resetAfter / 1000)}s`
+ * );
+ */
+export class RateLimiter {
+  private readonly ownerIds: string[];
+  private readonly commands: Map<string, RateLimitOptions> = new Map();
+  private readonly logs: Map<string, { timestamps: number[]; expiresAt: number }> = new Map();
+  private readonly buckets: Map<string, { tokens: number; updatedAt: number; expiresAt: number }> = new Map();
+  private readonly sweepInterval: number;
+  private sweeper: NodeJS.Timeout | null = null;
+
+  /**
+   * @param options - Configuration options for the limiter
+   * @param options.ownerIds - IDs of bot owners who bypass every rate limit
+   * @param options.sweepInterval - Time in milliseconds between sweeps of uses that no longer count (default: 60000)
+   */
+  constructor(options: { ownerIds?: string[]; sweepInterval?: number } = {}) {
+    this.ownerIds = options.ownerIds ?? [];
+    this.sweepInterval = options.sweepInterval ?? 60000;
+  }
+
+  /**
+   * Configures the rate limit of a command
+   * @param command - The command identifier
+   * @param options - The rate limit configuration
+   * @param options.strategy - Either 'sliding-window' or 'token-bucket'
+   * @param options.limit - Number of uses allowed per window
+   * @param options.window - Length of the window in milliseconds
+   * @param options.burst - Maximum uses in a burst for token buckets, a positive integer (default: limit)
+   * @param options.scope - The bucket the limit is shared across (default: 'user')
+   * @param options.bypass - Users, roles and permissions that are exempt from the limit
+   * @returns {this} - The limiter, for chaining
+   * @example
+   * // At most 10 uses per channel in any 30 second window
+   * rateLimiter.configure('meme', {
+   *   strategy: 'sliding-window',
+   *   limit: 10,
+   *   window: 30000,
+   *   scope: 'channel'
+   * });
+   */
+  public configure(command: string, options: RateLimitOptions): this {
+    if (options.limit <= 0 || options.window <= 0) {
+      throw new Error('Rate limit and window must be greater than 0');
+    }
+
+    if (options.burst !== undefined && (!Number.isInteger(options.burst) || options.burst <= 0)) {
+      throw new Error('Rate limit burst must be a positive integer');
+    }
+
+    this.commands.set(command, options);
+    return this;
+  }
+
+  /**
+   * Records a use of a command if the invoker is not rate limited
+   * @param target - An interaction, message or cooldown context
+   * @param command - The command identifier
+   * @returns {RateLimitResult} - The rate limit status after this use
+   * @example
+   * const { limited, retryAfter } = rateLimiter.consume(message, 'search');
+   * if (limited) {
+   *   return message.reply(`Try again in ${Math.ceil(retryAfter / 1000)}s.`);
+   * }
+   */
+  public consume(target: CooldownTarget, command: string): RateLimitResult {
+    return this.evaluate(target, command, true);
+  }
+
+  /**
+   * Gets the rate limit status of a command without recording a use
+   * @param target - An interaction, message or cooldown context
+   * @param command - The command identifier
+   * @returns {RateLimitResult} - The current rate limit status
+   * @example
+   * const { remaining, limit } = rateLimiter.peek(interaction, 'search');
+   * await interaction.reply(`You have ${remaining}/${limit} searches left.`);
+   */
+  public peek(target: CooldownTarget, command: string): RateLimitResult {
+    return this.evaluate(target, command, false);
+  }
+
+  /**
+   * Clears the recorded uses of a command for an invoker
+   * @param target - An interaction, message or cooldown context
+   * @param command - The command identifier
+   * @example
+   * rateLimiter.reset({ userId: '123456789012345678' }, 'search');
+   */
+  public reset(target: CooldownTarget, command: string): void {
+    const options = this.getOptions(command);
+    const key = getCooldownKey(command, options.scope ?? 'user', resolveCooldownContext(target));
+
+    if (key) {
+      this.logs.delete(key);
+      this.buckets.delete(key);
+    }
+  }
+
+  /**
+   * Removes the recorded uses that no longer count towards any limit
+   */
+  public sweep(): void {
+    const now = Date.now();
+
+    for (const entries of [this.logs, this.buckets]) {
+      for (const [key, entry] of entries) {
+        if (entry.expiresAt <= now) {
+          entries.delete(key);
+        }
+      }
+    }
+  }
+
+  /**
+   * Stops the sweeper and forgets all recorded uses
+   */
+  public dispose(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+    this.logs.clear();
+    this.buckets.clear();
+  }
+
+  private startSweeper(): void {
+    if (this.sweeper) {
+      return;
+    }
+
+    this.sweeper = setInterval(() => this.sweep(), this.sweepInterval);
+    this.sweeper.unref();
+  }
+
+  private getOptions(command: string): RateLimitOptions {
+    const options = this.commands.get(command);
+
+    if (!options) {
+      throw new Error(`No rate limit configured for command "${command}"`);
+    }
+
+    return options;
+  }
+
+  private evaluate(target: CooldownTarget, command: string, consume: boolean): RateLimitResult {
+    const options = this.getOptions(command);
+    const scope = options.scope ?? 'user';
+    const context: CooldownContext = resolveCooldownContext(target);
+    const key = getCooldownKey(command, scope, context);
+    const limit = options.strategy === 'token-bucket' ? options.burst ?? options.limit : options.limit;
+
+    // Contexts that cannot be keyed on the scope (e.g. guild scope in DMs) are never limited
+    if (!key) {
+      return { limited: false, remaining: limit, limit, retryAfter: 0, resetAfter: 0, scope, bypassed: false };
+    }
+
+    if (isCooldownBypassed(context, options.bypass, this.ownerIds)) {
+      return { limited: false, remaining: limit, limit, retryAfter: 0, resetAfter: 0, scope, bypassed: true };
+    }
+
+    return options.strategy === 'token-bucket'
+      ? this.evaluateBucket(key, options, limit, consume)
+      : this.evaluateWindow(key, options, consume);
+  }
+
+  private evaluateWindow(key: string, options: RateLimitOptions, consume: boolean): RateLimitResult {
+    const now = Date.now();
+    const log = (this.logs.get(key)?.timestamps ?? []).filter(timestamp => timestamp > now - options.window);
+    const limited = log.length >= options.limit;
+
+    if (consume && !limited) {
+      log.push(now);
+    }
+
+    if (log.length) {
+      this.logs.set(key, { timestamps: log, expiresAt: log[log.length - 1] + options.window });
+      this.startSweeper();
+    } else {
+      this.logs.delete(key);
+    }
+
+    return {
+      limited,
+      remaining: Math.max(0, options.limit - log.length),
+      limit: options.limit,
+      retryAfter: limited ? log[0] + options.window - now : 0,
+      resetAfter: log.length ? log[log.length - 1] + options.window - now : 0,
+      scope: options.scope ?? 'user',
+      bypassed: false
+    };
+  }
+
+  private evaluateBucket(key: string, options: RateLimitOptions, capacity: number, consume: boolean): RateLimitResult {
+    const now = Date.now();
+    const refillRate = options.limit / options.window;
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now, expiresAt: now };
+
+    bucket.tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * refillRate);
+    bucket.updatedAt = now;
+
+    const limited = bucket.tokens < 1;
+
+    if (consume && !limited) {
+      bucket.tokens -= 1;
+    }
+
+    const resetAfter = Math.ceil((capacity - bucket.tokens) / refillRate);
+
+    // A full bucket is the same as no bucket
+    if (bucket.tokens < capacity) {
+      bucket.expiresAt = now + resetAfter;
+      this.buckets.set(key, bucket);
+      this.startSweeper();
+    } else {
+      this.buckets.delete(key);
+    }
+
+    return {
+      limited,
+      remaining: Math.floor(bucket.tokens),
+      limit: capacity,
+      retryAfter: limited ? Math.ceil((1 - bucket.tokens) / refillRate) : 0,
+      resetAfter,
+      scope: options.scope ?? 'user',
+      bypassed: false
+    };
+  }
+}
+
+// Singleton instance for rate limiting
+export const rateLimiter = new RateLimiter();
@@ -0,0 +1,432 @@
+import {
+  ApplicationCommandType,
+  ChatInputCommandInteraction,
+  EmbedBuilder,
+  Interaction,
+  LocalizationMap,
+  MessageFlags,
+  PermissionResolvable,
+  PermissionsBitField,
+  RESTPostAPIApplicationCommandsJSONBody,
+  RESTPostAPIChatInputApplicationCommandsJSONBody,
+  RESTPostAPIContextMenuApplicationCommandsJSONBody,
+} from 'discord.js';
+import { AutocompleteRegistry } from './autocomplete';
+import { autoDefer, CommandCooldownOptions, commandKey, CooldownManager, cooldownManager, deferOrReply } from './command';
+import {
+  ContextMenuCommand,
+  MessageContextMenuCommand,
+  resolveMessageTarget,
+  resolveUserTarget,
+  UserContextMenuCommand,
+} from './contextmenu';
+import { buildErrorEmbed } from './embed';
+import { handleCommandError } from './errors';
+import { t } from './i18n';
+import { getMetricsCollector } from './metrics';
+import { CommandGuard, cooldown, GuardInteraction, runGuards } from './guards';
+import { acquireCommandLock, CommandLock, CommandLockOptions, LockAbortedError, LockManager, lockManager, LockPolicy } from './locks';
+import { buildOptionsPayload, CommandOption, InferOptions, OptionSchema, parseOptions } from './options';
+
+/**
+ * A slash command created with {@link defineCommand}
+ * @typeParam S - The option schema of the command
+ */
+export interface SlashCommand<S extends OptionSchema = OptionSchema> {
+  name: string;
+  description: string;
+  nameLocalizations?: LocalizationMap;
+  descriptionLocalizations?: LocalizationMap;
+  options?: S;
+  category?: string;
+  hidden?: boolean;
+  cooldown?: number | CommandCooldownOptions;
+  defaultMemberPermissions?: PermissionResolvable | null;
+  dmPermission?: boolean;
+  nsfw?: boolean;
+  guards?: CommandGuard[];
+  autoDefer?: boolean | { delay?: number; ephemeral?: boolean };
+  lock?: LockPolicy | CommandLockOptions;
+  execute(interaction: ChatInputCommandInteraction, args: InferOptions<S>, signal: AbortSignal): unknown | Promise<unknown>;
+}
+
+/**
+ * Defines a slash command
+ * @param definition - The command definition
+ * @param definition.name - The command name (1-32 lowercase characters)
+ * @param definition.description - The command description (1-100 characters)
+ * @param definition.nameLocalizations - Localized command names keyed by locale
+ * @param definition.descriptionLocalizations - Localized command descriptions keyed by locale
+ * @param definition.options - The option schema of the command, built with {@link option}
+ * @param definition.category - The category the command is listed under in the generated help
+ * @param definition.hidden - Only list the command in the generated help for bot owners
+ * @param definition.cooldown - Cooldown duration in milliseconds, or a per-scope cooldown configuration
+ * @param definition.defaultMemberPermissions - Permissions a member needs to see the command by default
+ * @param definition.dmPermission - Whether the command is available in DMs
+ * @param definition.nsfw - Whether the command is age-restricted
+ * @param definition.guards - Checks that must pass before the command runs, in order
+ * @param definition.autoDefer - Defer the reply if the handler has not responded after about 2.5 seconds
+ * @param definition.lock - Keep the command from running more than once at a time, with a lock policy or configuration
+ * @param definition.execute - The handler run when the command is used, with the parsed and validated options and the lock's abort signal
+ * @returns {SlashCommand} - The command, ready to be added to a {@link CommandRegistry}
+ * @example
+ * const ping = defineCommand({
+ *   name: 'ping',
+ *   description: 'Checks the bot latency',
+ *   cooldown: 5000,
+ *   execute: async (interaction) => {
+ *     await interaction.reply(`Pong! ${interaction.client.ws.ping}ms`);
+ *   }
+ * });
+ *
+ * // With guards
+ * const purge = defineCommand({
+ *   name: 'purge',
+ *   description: 'Deletes recent messages',
+ *   guards: [guildOnly(), requirePermissions([PermissionFlagsBits.ManageMessages])],
+ *   execute: async (interaction) => {
+ *     // Purge logic here...
+ *   }
+ * });
+ *
+ * // With typed options
+ * const roll = defineCommand({
+ *   name: 'roll',
+ *   description: 'Rolls a die',
+ *   options: {
+ *     sides: option.integer({ description: 'Number of sides', min: 2, max: 100, required: true })
+ *   },
+ *   execute: async (interaction, { sides }) => {
+ *     await interaction.reply(`You rolled a ${Math.ceil(Math.random() * sides)}`);
+ *   }
+ * });
+ *
+ * // One export per user at a time; a second use aborts the first
+ * const exportCommand = defineCommand({
+ *   name: 'export',
+ *   description: 'Exports the channel history',
+ *   lock: 'cancel-previous',
+ *   autoDefer: true,
+ *   execute: async (interaction, args, signal) => {
+ *     const file = await exportMessages(interaction.channel, { signal });
+ *     await deferOrReply(interaction, { files: [file] });
+ *   }
+ * });
+ */
+export function defineCommand<S extends OptionSchema = {}>(definition: SlashCommand<S>): SlashCommand<S> {
+  if (!/^[-_'\p{L}\p{N}]{1,32}$/u.test(definition.name) || definition.name !== definition.name.toLowerCase()) {
+    throw new Error(`Invalid command name "${definition.name}"`);
+  }
+
+  if (!definition.description || definition.description.length > 100) {
+    throw new Error(`Command "${definition.name}" must have a description of 1-100 characters`);
+  }
+
+  // Surfaces invalid option schemas at definition time rather than at registration
+  buildOptionsPayload(definition.options ?? {});
+
+  return definition;
+}
+
+/**
+ * Sends an error embed as the response to an interaction, whatever its reply state
+ */
+async function replyWithError(
+  interaction: ChatInputCommandInteraction,
+  embed: EmbedBuilder
+): Promise<void> {
+  await deferOrReply(interaction, { embeds: [embed], flags: MessageFlags.Ephemeral }).catch(() => null);
+}
+
+/**
+ * Serializes a command's default member permissions as the API expects them
+ */
+function resolveDefaultPermissions(permissions: PermissionResolvable | null | undefined): string | null {
+  return permissions === undefined || permissions === null
+    ? null
+    : PermissionsBitField.resolve(permissions).toString();
+}
+
+/**
+ * Identifies a command in its cooldown and lock managers, e.g. `slash:report` or `user:Report`
+ */
+function resolveCommandKey(command: SlashCommand | ContextMenuCommand): string {
+  if (!('type' in command)) {
+    return commandKey(command.name, 'slash');
+  }
+
+  return commandKey(command.name, command.type === ApplicationCommandType.User ? 'user' : 'message');
+}
+
+/**
+ * Collects slash and context menu commands, produces their registration payload and routes interactions to them
+ * @class
+ * @description Cooldowns and locks are kept per kind of command, so a slash command and a context menu command
+ * of the same name do not share them. The registry configures them under {@link commandKey} identifiers such
+ * as `slash:report`, `user:Report` and `message:Report`; a plain name like `'report'` passed to the cooldown
+ * or lock manager names the slash command. Metrics are reported under the plain command name.
+ * @example
+ * const registry = new CommandRegistry().register(ping, daily, userInfo, reportMessage);
+ *
+ * // Register the commands with Discord
+ * await rest.put(Routes.applicationCommands(clientId), { body: registry.toJSON() });
+ *
+ * // Route incoming interactions
+ * client.on('interactionCreate', (interaction) => registry.dispatch(interaction));
+ */
+export class CommandRegistry {
+  private readonly commands: Map<string, SlashCommand> = new Map();
+  private readonly contextMenuCommands: Map<string, ContextMenuCommand> = new Map();
+  private readonly cooldowns: CooldownManager;
+  private readonly locks: LockManager;
+  private readonly autocomplete: AutocompleteRegistry = new AutocompleteRegistry();
+
+  /**
+   * @param options - Configuration options for the registry
+   * @param options.cooldowns - The cooldown manager used to enforce command cooldowns (default: cooldownManager)
+   * @param options.locks - The lock manager used to enforce command locks (default: lockManager)
+   */
+  constructor(options: { cooldowns?: CooldownManager; locks?: LockManager } = {}) {
+    this.cooldowns = options.cooldowns ?? cooldownManager;
+    this.locks = options.locks ?? lockManager;
+  }
+
+  /**
+   * Adds commands to the registry
+   * @param commands - The slash and context menu commands to add
+   * @returns {this} - The registry, for chaining
+   * @example
+   * registry.register(ping, daily, ban, userInfo);
+   */
+  public register(...commands: Array<SlashCommand | ContextMenuCommand>): this {
+    for (const command of commands) {
+      if ('type' in command) {
+        const key = `${command.type}:${command.name}`;
+
+        if (this.contextMenuCommands.has(key)) {
+          throw new Error(`A context menu command named "${command.name}" is already registered`);
+        }
+
+        this.contextMenuCommands.set(key, command);
+      } else {
+        if (this.commands.has(command.name)) {
+          throw new Error(`A command named "${command.name}" is already registered`);
+        }
+
+        this.commands.set(command.name, command);
+
+        for (const [name, definition] of Object.entries<CommandOption>(command.options ?? {})) {
+          if (definition.autocomplete) {
+            this.autocomplete.register(command.name, name, definition.autocomplete);
+          }
+        }
+      }
+
+      if (command.cooldown !== undefined) {
+        this.cooldowns.configure(
+          resolveCommandKey(command),
+          typeof command.cooldown === 'number'
+            ? { scopes: [{ scope: 'user', duration: command.cooldown }] }
+            : command.cooldown
+        );
+      }
+
+      if (command.lock !== undefined) {
+        this.locks.configure(resolveCommandKey(command), typeof command.lock === 'string' ? { policy: command.lock } : command.lock);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Gets a registered slash command by name
+   * @param name - The command name
+   * @returns {SlashCommand | undefined} - The command, or undefined if it is not registered
+   */
+  public get(name: string): SlashCommand | undefined {
+    return this.commands.get(name);
+  }
+
+  /**
+   * Lists all registered slash commands
+   * @returns {SlashCommand[]} - The registered slash commands in registration order
+   */
+  public all(): SlashCommand[] {
+    return [...this.commands.values()];
+  }
+
+  /**
+   * Lists all registered context menu commands
+   * @returns {ContextMenuCommand[]} - The registered user and message commands in registration order
+   */
+  public contextMenus(): ContextMenuCommand[] {
+    return [...this.contextMenuCommands.values()];
+  }
+
+  /**
+   * Builds the payload used to register the commands with Discord
+   * @returns {RESTPostAPIApplicationCommandsJSONBody[]} - One entry per registered command, slash commands first
+   * @example
+   * await rest.put(
+   *   Routes.applicationGuildCommands(clientId, guildId),
+   *   { body: registry.toJSON() }
+   * );
+   */
+  public toJSON(): RESTPostAPIApplicationCommandsJSONBody[] {
+    const slashCommands = this.all().map((command): RESTPostAPIChatInputApplicationCommandsJSONBody => ({
+      type: ApplicationCommandType.ChatInput,
+      name: command.name,
+      description: command.description,
+      ...(command.nameLocalizations && { name_localizations: command.nameLocalizations }),
+      ...(command.descriptionLocalizations && { description_localizations: command.descriptionLocalizations }),
+      options: buildOptionsPayload(command.options ?? {}),
+      default_member_permissions: resolveDefaultPermissions(command.defaultMemberPermissions),
+      ...(command.dmPermission !== undefined && { dm_permission: command.dmPermission }),
+      ...(command.nsfw !== undefined && { nsfw: command.nsfw })
+    }));
+
+    const contextMenuCommands = this.contextMenus().map((command): RESTPostAPIContextMenuApplicationCommandsJSONBody => ({
+      type: command.type,
+      name: command.name,
+      ...(command.nameLocalizations && { name_localizations: command.nameLocalizations }),
+      default_member_permissions: resolveDefaultPermissions(command.defaultMemberPermissions),
+      ...(command.dmPermission !== undefined && { dm_permission: command.dmPermission }),
+      ...(command.nsfw !== undefined && { nsfw: command.nsfw })
+    }));
+
+    return [...slashCommands, ...contextMenuCommands];
+  }
+
+  /**
+   * Routes an interaction to its command, running its guards and cooldown and reporting failures
+   * @description Autocomplete interactions are answered by the providers of the command's options,
+   * and context menu commands receive their resolved target
+   * @param interaction - The interaction received from the gateway
+   * @returns {Promise<boolean>} - True if the interaction was handled by a registered command
+   * @example
+   * client.on('interactionCreate', async (interaction) => {
+   *   const handled = await registry.dispatch(interaction);
+   *   if (!handled && interaction.isChatInputCommand()) {
+   *     console.warn(`Unknown command: ${interaction.commandName}`);
+   *   }
+   * });
+   */
+  public async dispatch(interaction: Interaction): Promise<boolean> {
+    if (interaction.isAutocomplete()) {
+      return this.autocomplete.handle(interaction);
+    }
+
+    if (interaction.isUserContextMenuCommand()) {
+      const command = this.contextMenuCommands.get(`${ApplicationCommandType.User}:${interaction.commandName}`);
+      if (!command) {
+        return false;
+      }
+
+      await this.run(interaction, command, signal =>
+        (command as UserContextMenuCommand).execute(interaction, resolveUserTarget(interaction), signal)
+      );
+      return true;
+    }
+
+    if (interaction.isMessageContextMenuCommand()) {
+      const command = this.contextMenuCommands.get(`${ApplicationCommandType.Message}:${interaction.commandName}`);
+      if (!command) {
+        return false;
+      }
+
+      await this.run(interaction, command, signal =>
+        (command as MessageContextMenuCommand).execute(interaction, resolveMessageTarget(interaction), signal)
+      );
+      return true;
+    }
+
+    if (!interaction.isChatInputCommand()) {
+      return false;
+    }
+
+    const command = this.commands.get(interaction.commandName);
+    if (!command) {
+      return false;
+    }
+
+    const parsed = parseOptions(interaction, command.options ?? {});
+
+    if (!parsed.success) {
+      await replyWithError(interaction, buildErrorEmbed(parsed.error, { title: t('command.invalidOption', {}, interaction) }));
+      return true;
+    }
+
+    await this.run(interaction, command, signal => command.execute(interaction, parsed.args, signal));
+    return true;
+  }
+
+  /**
+   * Runs a command handler behind its guards, cooldown, lock, auto-defer and error boundary
+   */
+  private async run(
+    interaction: GuardInteraction,
+    command: SlashCommand | ContextMenuCommand,
+    execute: (signal: AbortSignal) => unknown
+  ): Promise<void> {
+    const key = resolveCommandKey(command);
+
+    // The cooldown runs last so that a rejected invocation does not start it
+    const guards = command.cooldown === undefined
+      ? command.guards ?? []
+      : [...command.guards ?? [], cooldown({ manager: this.cooldowns, command: key })];
+
+    let lock: CommandLock | null = null;
+
+    // Guards and locks answer the interaction themselves, which can fail like the handler
+    try {
+      if (!(await runGuards(interaction, guards))) {
+        return;
+      }
+
+      lock = command.lock === undefined ? null : await acquireCommandLock(interaction, key, this.locks);
+      if (command.lock !== undefined && !lock) {
+        return;
+      }
+    } catch (error) {
+      getMetricsCollector()?.recordError(command.name);
+      await handleCommandError(interaction, error);
+      return;
+    }
+
+    const cancelAutoDefer = command.autoDefer
+      ? autoDefer(interaction, command.autoDefer === true ? {} : command.autoDefer)
+      : null;
+    const metrics = getMetricsCollector();
+    const startedAt = performance.now();
+
+    metrics?.recordInvocation(command.name);
+
+    // A deferred reply of a run that is cancelled or times out would otherwise keep "thinking" until its token expires
+    const onAbort = () => {
+      const reason = lock?.signal.reason instanceof LockAbortedError ? lock.signal.reason.reason : 'cancelled';
+
+      if (interaction.deferred && !interaction.replied) {
+        deferOrReply(interaction, t(`lock.${reason}`, {}, interaction)).catch(() => null);
+      }
+    };
+    lock?.signal.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      await execute(lock?.signal ?? new AbortController().signal);
+    } catch (error) {
+      // A run aborted by its lock was cancelled on purpose rather than broken
+      if (error instanceof LockAbortedError && lock?.signal.reason === error) {
+        return;
+      }
+
+      metrics?.recordError(command.name);
+      await handleCommandError(interaction, error);
+    } finally {
+      lock?.signal.removeEventListener('abort', onAbort);
+      lock?.release();
+      cancelAutoDefer?.();
+      metrics?.recordLatency(command.name, performance.now() - startedAt);
+    }
+  }
+}
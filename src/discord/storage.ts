@@ -0,0 +1,367 @@
+import { Collection } from 'discord.js';
+import { mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'fs';
+import { dirname } from 'path';
+
+/**
+ * Storage backend used by {@link CooldownManager} to persist cooldown entries
+ * @description Every entry holds a numeric value (the timestamp of the last use)
+ * and expires after the given time-to-live. Implementations must be synchronous
+ * so that cooldown checks can stay synchronous.
+ * @example
+ * // A minimal custom store backed by a Map
+ * class MapStore implements CooldownStore {
+ *   private data = new Map<string, { value: number; expiresAt: number }>();
+ *
+ *   get(key: string) {
+ *     const entry = this.data.get(key);
+ *     if (!entry || entry.expiresAt <= Date.now()) return undefined;
+ *     return entry.value;
+ *   }
+ *
+ *   set(key: string, value: number, ttl: number) {
+ *     this.data.set(key, { value, expiresAt: Date.now() + ttl });
+ *   }
+ *
+ *   delete(key: string) {
+ *     this.data.delete(key);
+ *   }
+ *
+ *   expire(key: string, ttl: number) {
+ *     const entry = this.data.get(key);
+ *     if (entry) entry.expiresAt = Date.now() + ttl;
+ *   }
+ *
+ *   entries() {
+ *     const now = Date.now();
+ *     return [...this.data]
+ *       .filter(([, entry]) => entry.expiresAt > now)
+ *       .map(([key, entry]) => ({ key, ...entry }));
+ *   }
+ * }
+ */
+export interface CooldownStore {
+  /**
+   * Gets the value stored for a key
+   * @param key - The entry key
+   * @returns {number | undefined} - The stored value, or undefined if missing or expired
+   */
+  get(key: string): number | undefined;
+
+  /**
+   * Stores a value for a key
+   * @param key - The entry key
+   * @param value - The value to store
+   * @param ttl - Time in milliseconds before the entry expires
+   */
+  set(key: string, value: number, ttl: number): void;
+
+  /**
+   * Removes the entry for a key
+   * @param key - The entry key
+   */
+  delete(key: string): void;
+
+  /**
+   * Changes the remaining lifetime of an existing entry
+   * @param key - The entry key
+   * @param ttl - New time in milliseconds before the entry expires
+   */
+  expire(key: string, ttl: number): void;
+
+  /**
+   * Lists all entries that have not expired
+   * @returns {CooldownStoreEntry[]} - The live entries
+   */
+  entries(): CooldownStoreEntry[];
+
+  /**
+   * Releases any timers or handles held by the store
+   */
+  dispose?(): void;
+}
+
+/**
+ * A live entry of a {@link CooldownStore}
+ */
+export interface CooldownStoreEntry {
+  key: string;
+  value: number;
+  expiresAt: number;
+}
+
+/**
+ * In-memory cooldown store, used by default by {@link CooldownManager}
+ * @class
+ * @description Entries are lost when the process exits. Expired entries are ignored on
+ * read and removed by a periodic sweeper whose timer does not keep the process alive.
+ * @example
+ * // Sweep expired entries every 5 minutes instead of every minute
+ * const manager = new CooldownManager({
+ *   store: new MemoryCooldownStore({ sweepInterval: 5 * 60 * 1000 })
+ * });
+ */
+export class MemoryCooldownStore implements CooldownStore {
+  private entriesByKey: Collection<string, { value: number; expiresAt: number }> = new Collection();
+  private sweeper: NodeJS.Timeout | null = null;
+  private readonly sweepInterval: number;
+
+  /**
+   * @param options - Configuration options for the store
+   * @param options.sweepInterval - Time in milliseconds between sweeps of expired entries (default: 60000)
+   */
+  constructor(options: { sweepInterval?: number } = {}) {
+    this.sweepInterval = options.sweepInterval ?? 60000;
+  }
+
+  public get(key: string): number | undefined {
+    const entry = this.entriesByKey.get(key);
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  public set(key: string, value: number, ttl: number): void {
+    this.entriesByKey.set(key, { value, expiresAt: Date.now() + ttl });
+    this.startSweeper();
+  }
+
+  public delete(key: string): void {
+    this.entriesByKey.delete(key);
+  }
+
+  public expire(key: string, ttl: number): void {
+    const entry = this.entriesByKey.get(key);
+    if (entry) {
+      entry.expiresAt = Date.now() + ttl;
+    }
+  }
+
+  public entries(): CooldownStoreEntry[] {
+    const now = Date.now();
+
+    return this.entriesByKey
+      .filter(entry => entry.expiresAt > now)
+      .map((entry, key) => ({ key, ...entry }));
+  }
+
+  /**
+   * Removes all expired entries
+   */
+  public sweep(): void {
+    const now = Date.now();
+    this.entriesByKey.sweep(entry => entry.expiresAt <= now);
+  }
+
+  public dispose(): void {
+    if (this.sweeper) {
+      clearInterval(this.sweeper);
+      this.sweeper = null;
+    }
+    this.entriesByKey.clear();
+  }
+
+  private startSweeper(): void {
+    if (this.sweeper) {
+      return;
+    }
+
+    this.sweeper = setInterval(() => this.sweep(), this.sweepInterval);
+    this.sweeper.unref();
+  }
+}
+
+type StoredCooldown = { value: number; expiresAt: number };
+
+// The JSON stores with changes that still have to be written when the process exits
+const unsavedStores: Set<JsonFileCooldownStore> = new Set();
+
+function flushUnsavedStores(): void {
+  for (const store of unsavedStores) {
+    store.flush();
+  }
+}
+
+/**
+ * Cooldown store that persists entries to a JSON file
+ * @class
+ * @description Entries are served from memory and the file is read again only when another process
+ * has replaced it, so several bot processes on the same host can share one file. Changes are written
+ * back atomically in batches, at most once per save delay; right before each write, entries another
+ * process wrote in the meantime are merged in, keeping the later expiry of an entry both processes set.
+ * Pending changes are also written when the store is disposed or the process exits, so cooldowns
+ * survive restarts.
+ * @example
+ * // Persist cooldowns across restarts, shared by every shard process
+ * const manager = new CooldownManager({
+ *   store: new JsonFileCooldownStore('./data/cooldowns.json')
+ * });
+ *
+ * const { onCooldown } = manager.check(interaction.user.id, 'daily', 24 * 60 * 60 * 1000);
+ */
+export class JsonFileCooldownStore implements CooldownStore {
+  private entriesByKey: Record<string, StoredCooldown> = {};
+  // The keys changed since the last write, with the kind of change
+  private readonly changes: Map<string, 'set' | 'expire' | 'delete'> = new Map();
+  private version: string | null = null;
+  private saveTimer: NodeJS.Timeout | null = null;
+  private readonly saveDelay: number;
+
+  /**
+   * @param path - Path of the JSON file; the file and its parent directories are created if they do not exist
+   * @param options - Configuration options for the store
+   * @param options.saveDelay - Time in milliseconds to collect changes before they are written to the file (default: 1000)
+   */
+  constructor(private readonly path: string, options: { saveDelay?: number } = {}) {
+    this.saveDelay = options.saveDelay ?? 1000;
+    mkdirSync(dirname(path), { recursive: true });
+    this.refresh();
+  }
+
+  public get(key: string): number | undefined {
+    this.refresh();
+    const entry = this.entriesByKey[key];
+
+    if (!entry || entry.expiresAt <= Date.now()) {
+      return undefined;
+    }
+
+    return entry.value;
+  }
+
+  public set(key: string, value: number, ttl: number): void {
+    this.entriesByKey[key] = { value, expiresAt: Date.now() + ttl };
+    this.change(key, 'set');
+  }
+
+  public delete(key: string): void {
+    if (key in this.entriesByKey) {
+      delete this.entriesByKey[key];
+      this.change(key, 'delete');
+    }
+  }
+
+  public expire(key: string, ttl: number): void {
+    const entry = this.entriesByKey[key];
+    if (entry) {
+      entry.expiresAt = Date.now() + ttl;
+      this.change(key, this.changes.get(key) === 'set' ? 'set' : 'expire');
+    }
+  }
+
+  public entries(): CooldownStoreEntry[] {
+    this.refresh();
+    const now = Date.now();
+
+    return Object.entries(this.entriesByKey)
+      .filter(([, entry]) => entry.expiresAt > now)
+      .map(([key, entry]) => ({ key, ...entry }));
+  }
+
+  /**
+   * Writes pending changes to the file right away
+   */
+  public flush(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+
+    if (this.changes.size) {
+      this.save();
+    }
+  }
+
+  public dispose(): void {
+    this.flush();
+  }
+
+  private change(key: string, kind: 'set' | 'expire' | 'delete'): void {
+    this.changes.set(key, kind);
+
+    if (!unsavedStores.size) {
+      process.once('exit', flushUnsavedStores);
+    }
+    unsavedStores.add(this);
+
+    if (!this.saveTimer) {
+      this.saveTimer = setTimeout(() => {
+        this.saveTimer = null;
+        this.save();
+      }, this.saveDelay);
+      this.saveTimer.unref();
+    }
+  }
+
+  /**
+   * Reads the file again if another process has replaced it, keeping the changes not written yet
+   */
+  private refresh(): void {
+    let version: string | null = null;
+    let stored: Record<string, StoredCooldown> = {};
+
+    try {
+      // Every write replaces the file, so a new inode or modification time means it was written again
+      const stats = statSync(this.path);
+      version = `${stats.ino}:${stats.mtimeMs}`;
+      if (version === this.version) {
+        return;
+      }
+
+      stored = JSON.parse(readFileSync(this.path, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`Failed to read cooldowns from ${this.path}:`, error);
+      }
+      if (version === null && this.version === null) {
+        return;
+      }
+    }
+
+    const local = this.entriesByKey;
+    this.entriesByKey = stored;
+    this.version = version;
+
+    for (const [key, kind] of this.changes) {
+      const entry = local[key];
+
+      if (kind === 'delete') {
+        delete this.entriesByKey[key];
+      } else if (kind === 'expire' || !(key in stored) || entry.expiresAt >= stored[key].expiresAt) {
+        // Both processes started the cooldown: the later expiry wins
+        this.entriesByKey[key] = entry;
+      }
+    }
+  }
+
+  private save(): void {
+    this.refresh();
+    this.changes.clear();
+    unsavedStores.delete(this);
+
+    if (!unsavedStores.size) {
+      process.off('exit', flushUnsavedStores);
+    }
+
+    const now = Date.now();
+
+    for (const [key, entry] of Object.entries(this.entriesByKey)) {
+      if (entry.expiresAt <= now) {
+        delete this.entriesByKey[key];
+      }
+    }
+
+    try {
+      const temporaryPath = `${this.path}.${process.pid}.tmp`;
+      writeFileSync(temporaryPath, JSON.stringify(this.entriesByKey));
+      renameSync(temporaryPath, this.path);
+
+      const stats = statSync(this.path);
+      this.version = `${stats.ino}:${stats.mtimeMs}`;
+    } catch (error) {
+      console.error(`Failed to write cooldowns to ${this.path}:`, error);
+    }
+  }
+}
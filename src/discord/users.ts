@@ -14,6 +14,7 @@ import {
   StageChannel,
   VoiceBasedChannel
 } from 'discord.js';
+import { SendPriority, SendQueue } from './queue';
 
 /**
  * Gets the most appropriate display name for a user or guild member
@@ -259,6 +260,8 @@ export function checkPermissions(
  * @param options - Configuration options for sending the DM
  * @param options.throwError - Whether to throw an error if the DM fails (default: false)
  * @param options.fallbackAction - Optional callback function to execute if DM fails
+ * @param options.queue - Sends the DM through a {@link SendQueue}, after the DMs already queued for the user
+ * @param options.priority - The priority of the DM in the queue (default: 'normal')
  * @returns {Promise<DMChannel | null>} - The DM channel if successful, null if failed and not throwing
  * @example
  * // Simple DM to a user
@@ -299,15 +302,21 @@ export async function sendDM(
   options?: {
     throwError?: boolean;
     fallbackAction?: () => Promise<void>;
+    queue?: SendQueue;
+    priority?: SendPriority;
   }
 ): Promise<DMChannel | null> {
   const user = userOrMember instanceof GuildMember ? userOrMember.user : userOrMember;
-  const { throwError = false, fallbackAction } = options || {};
+  const { throwError = false, fallbackAction, queue, priority } = options || {};
 
   try {
     const dmChannel = await user.createDM();
 
-    await dmChannel.send(content);
+    if (queue) {
+      await queue.send(dmChannel, content, { priority });
+    } else {
+      await dmChannel.send(content);
+    }
 
     return dmChannel;
   } catch (error) {
@@ -417,29 +426,39 @@ export function findMemberByName(
 
   const searchName = caseSensitive ? name : name.toLowerCase();
 
-  const exactMatch = guild.members.cache.find(member => {
-    const username = caseSensitive ? member.user.username : member.user.username.toLowerCase();
-    const nickname = member.nickname ? (caseSensitive ? member.nickname : member.nickname.toLowerCase()) : null;
-    const tag = includeTag ? (caseSensitive ? member.user.tag : member.user.tag.toLowerCase()) : null;
-
-    return username === searchName ||
-           (nickname && nickname === searchName) ||
-           (includeTag && tag === searchName);
-  });
+  const exactMatch = guild.members.cache.find(member =>
+    getMemberSearchNames(member, { caseSensitive, includeTag }).includes(searchName)
+  );
 
   if (exactMatch || exact) {
     return exactMatch || null;
   }
 
-  return guild.members.cache.find(member => {
-    const username = caseSensitive ? member.user.username : member.user.username.toLowerCase();
-    const nickname = member.nickname ? (caseSensitive ? member.nickname : member.nickname.toLowerCase()) : null;
-    const tag = includeTag ? (caseSensitive ? member.user.tag : member.user.tag.toLowerCase()) : null;
+  return guild.members.cache.find(member =>
+    getMemberSearchNames(member, { caseSensitive, includeTag }).some(memberName => memberName.includes(searchName))
+  ) || null;
+}
+
+/**
+ * Gets the names a member can be looked up by: username, nickname and optionally tag
+ * @internal
+ */
+export function getMemberSearchNames(
+  member: GuildMember,
+  options: { caseSensitive?: boolean; includeTag?: boolean } = {}
+): string[] {
+  const { caseSensitive = false, includeTag = false } = options;
+  const names = [member.user.username];
+
+  if (member.nickname) {
+    names.push(member.nickname);
+  }
+
+  if (includeTag) {
+    names.push(member.user.tag);
+  }
 
-    return username.includes(searchName) ||
-           (nickname && nickname.includes(searchName)) ||
-           (includeTag && tag && tag.includes(searchName));
-  }) || null;
+  return caseSensitive ? names : names.map(name => name.toLowerCase());
 }
 
 /**
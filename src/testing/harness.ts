@@ -0,0 +1,683 @@
+import {
+  APIGuildMember,
+  APIInteractionDataResolvedChannel,
+  APIMessage,
+  APIRole,
+  APIUser,
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  ButtonInteraction,
+  ChannelType,
+  ChatInputCommandInteraction,
+  Client,
+  ClientUser,
+  ComponentType,
+  DMChannel,
+  Events,
+  Guild,
+  GuildBasedChannel,
+  GuildMember,
+  GuildMemberFlags,
+  InteractionType,
+  Message,
+  MessageType,
+  ModalSubmitInteraction,
+  OmitPartialGroupDMChannel,
+  PermissionResolvable,
+  PermissionsBitField,
+  Role,
+  RoleFlags,
+  SnowflakeUtil,
+  StringSelectMenuInteraction,
+  TextChannel,
+  User,
+} from 'discord.js';
+import { MockRest } from './rest';
+
+/**
+ * A value of a simulated slash command option; its option type is inferred from the value
+ */
+export type TestOptionValue = string | number | boolean | User | GuildMember | Role | GuildBasedChannel;
+
+/**
+ * Who uses a simulated interaction, where, and in which locale
+ */
+export interface TestInteractionContext {
+  user: User;
+  channel: TextChannel | DMChannel;
+  /** The user's locale (default: the harness locale) */
+  locale?: string;
+}
+
+/**
+ * The discord.js structure classes, whose constructors are not part of the public typings
+ */
+type StructureConstructor<T> = new (...args: unknown[]) => T;
+
+/**
+ * Builds a structure from API data, as the client does for gateway events, and stores it in the given caches
+ */
+function cacheStructure<T extends { id: string }>(
+  Structure: unknown,
+  args: unknown[],
+  ...caches: Array<{ set(id: string, structure: T): unknown }>
+): T {
+  const structure = new (Structure as StructureConstructor<T>)(...args);
+
+  for (const cache of caches) {
+    cache.set(structure.id, structure);
+  }
+
+  return structure;
+}
+
+/**
+ * Runs library code against an offline discord.js client, for tests
+ * @class
+ * @description The client never connects: guilds, channels, members and messages are created in its
+ * cache, REST requests are answered and recorded by a {@link MockRest}, and incoming messages and
+ * interactions are emitted as gateway events. Collectors rely on timers only, so pagination timeouts
+ * can be driven with the fake timers of any test runner. discord.js keeps its own references to the timer
+ * functions, so install them before discord.js is first loaded, e.g. in a setup file.
+ * @example
+ * import { TestHarness } from 'yebe/testing';
+ *
+ * const harness = new TestHarness();
+ * const guild = harness.createGuild({ name: 'Test server' });
+ * const channel = harness.createTextChannel(guild, { name: 'general' });
+ * const alice = harness.createUser({ username: 'alice' });
+ * harness.createMember(guild, alice);
+ *
+ * const paginator = new Paginator(['Page 1', 'Page 2'], { userId: alice.id });
+ * const message = await paginator.send(channel);
+ *
+ * await harness.clickButton(message, alice, paginator.customId('next'));
+ * expect(harness.rest.filter('editReply').at(-1)?.message?.content).toBe('Page 2');
+ *
+ * jest.advanceTimersByTime(60000);
+ * await harness.flush();
+ * expect(paginator.ended).toBe(true);
+ * await harness.destroy();
+ */
+export class TestHarness {
+  public readonly client: Client<true>;
+  public readonly rest: MockRest;
+
+  private readonly locale: string;
+  private readonly users: Map<string, APIUser> = new Map();
+  private readonly roles: Map<string, APIRole> = new Map();
+  private readonly members: Map<string, APIGuildMember> = new Map();
+
+  /**
+   * @param options - Configuration options for the harness
+   * @param options.locale - The locale of simulated users and guilds (default: 'en-US')
+   */
+  constructor(options: { locale?: string } = {}) {
+    this.locale = options.locale ?? 'en-US';
+
+    // Sweeper intervals would never let fake timers run out
+    this.client = new Client({
+      intents: [],
+      sweepers: { threads: { interval: 0, lifetime: 0 } },
+      rest: { hashSweepInterval: 0, handlerSweepInterval: 0 }
+    }) as Client<true>;
+
+    const botUser = this.buildUser({ username: 'bot', bot: true });
+    this.client.user = new (ClientUser as StructureConstructor<ClientUser>)(this.client, botUser);
+
+    this.rest = new MockRest(botUser, () => this.generateId());
+    this.client.rest.request = request => this.rest.handle(request);
+  }
+
+  /**
+   * Creates a user
+   * @param options - The user's properties
+   * @param options.username - The username (default: 'user')
+   * @param options.globalName - The display name
+   * @param options.bot - Whether the user is a bot
+   * @returns {User} - The cached user
+   */
+  public createUser(options: { username?: string; globalName?: string; bot?: boolean } = {}): User {
+    return cacheStructure(User, [this.client, this.buildUser(options)], this.client.users.cache);
+  }
+
+  /**
+   * Creates a guild with an @everyone role, and adds the bot to it
+   * @param options - The guild's properties
+   * @param options.name - The guild name (default: 'Test Guild')
+   * @param options.owner - The owner (default: the bot)
+   * @param options.preferredLocale - The guild's locale (default: the harness locale)
+   * @param options.everyonePermissions - The permissions of @everyone (default: Discord's defaults)
+   * @returns {Guild} - The cached guild
+   */
+  public createGuild(options: {
+    name?: string;
+    owner?: User;
+    preferredLocale?: string;
+    everyonePermissions?: PermissionResolvable;
+  } = {}): Guild {
+    const id = this.generateId();
+    const everyone = this.buildRole(id, {
+      name: '@everyone',
+      permissions: options.everyonePermissions ?? PermissionsBitField.Default,
+      position: 0
+    }, id);
+
+    const guild = cacheStructure<Guild>(Guild, [this.client, {
+      id,
+      name: options.name ?? 'Test Guild',
+      icon: null,
+      owner_id: options.owner?.id ?? this.client.user.id,
+      preferred_locale: options.preferredLocale ?? this.locale,
+      roles: [everyone],
+      emojis: [],
+      stickers: [],
+      features: [],
+      channels: [],
+      members: [],
+      member_count: 0
+    }], this.client.guilds.cache);
+
+    this.createMember(guild, this.client.user);
+    return guild;
+  }
+
+  /**
+   * Creates a role in a guild
+   * @param guild - The guild
+   * @param options - The role's properties
+   * @param options.name - The role name (default: 'role')
+   * @param options.permissions - The role's permissions (default: none)
+   * @param options.position - The role's position (default: above the existing roles)
+   * @returns {Role} - The cached role
+   */
+  public createRole(
+    guild: Guild,
+    options: { name?: string; permissions?: PermissionResolvable; position?: number } = {}
+  ): Role {
+    const data = this.buildRole(guild.id, {
+      name: options.name ?? 'role',
+      permissions: options.permissions ?? 0n,
+      position: options.position ?? guild.roles.cache.size
+    });
+
+    return cacheStructure(Role, [this.client, data, guild], guild.roles.cache);
+  }
+
+  /**
+   * Adds a user to a guild
+   * @param guild - The guild
+   * @param user - The user
+   * @param options - The member's properties
+   * @param options.nickname - The member's nickname
+   * @param options.roles - The member's roles, besides @everyone
+   * @returns {GuildMember} - The cached member
+   */
+  public createMember(guild: Guild, user: User, options: { nickname?: string; roles?: Role[] } = {}): GuildMember {
+    const data: APIGuildMember = {
+      user: this.users.get(user.id) ?? this.buildUser({ username: user.username, bot: user.bot }, user.id),
+      nick: options.nickname ?? null,
+      roles: (options.roles ?? []).map(role => role.id),
+      joined_at: new Date().toISOString(),
+      deaf: false,
+      mute: false,
+      flags: 0 as GuildMemberFlags
+    };
+
+    this.members.set(`${guild.id}:${user.id}`, data);
+    return cacheStructure(GuildMember, [this.client, data, guild], guild.members.cache);
+  }
+
+  /**
+   * Creates a text channel in a guild
+   * @param guild - The guild
+   * @param options - The channel's properties
+   * @param options.name - The channel name (default: 'general')
+   * @param options.nsfw - Whether the channel is age-restricted
+   * @returns {TextChannel} - The cached channel
+   */
+  public createTextChannel(guild: Guild, options: { name?: string; nsfw?: boolean } = {}): TextChannel {
+    return cacheStructure<TextChannel>(TextChannel, [guild, {
+      id: this.generateId(),
+      type: ChannelType.GuildText,
+      guild_id: guild.id,
+      name: options.name ?? 'general',
+      position: guild.channels.cache.size,
+      permission_overwrites: [],
+      nsfw: !!options.nsfw,
+      topic: null,
+      parent_id: null,
+      rate_limit_per_user: 0,
+      last_message_id: null
+    }, this.client], this.client.channels.cache, guild.channels.cache);
+  }
+
+  /**
+   * Creates the DM channel between the bot and a user
+   * @param user - The user
+   * @returns {DMChannel} - The cached channel
+   */
+  public createDMChannel(user: User): DMChannel {
+    return cacheStructure<DMChannel>(DMChannel, [this.client, {
+      id: this.generateId(),
+      type: ChannelType.DM,
+      recipients: [this.users.get(user.id)],
+      last_message_id: null
+    }], this.client.channels.cache);
+  }
+
+  /**
+   * Creates a message in a channel without emitting it
+   * @param channel - The channel
+   * @param author - The author
+   * @param content - The content, or the content and embeds
+   * @returns {Message} - The cached message
+   */
+  public createMessage(
+    channel: TextChannel | DMChannel,
+    author: User,
+    content: string | { content?: string; embeds?: APIMessage['embeds'] } = ''
+  ): Message {
+    const data = this.buildMessage(channel, author, content);
+    return cacheStructure(Message, [this.client, data], channel.messages.cache);
+  }
+
+  /**
+   * Simulates a user sending a message, emitting `messageCreate`
+   * @param channel - The channel
+   * @param author - The author
+   * @param content - The content, or the content and embeds
+   * @returns {Promise<Message>} - The message, once the handlers it triggered have settled
+   * @example
+   * const answer = awaitUserInput(channel, alice);
+   * await harness.sendMessage(channel, alice, 'blue');
+   * expect((await answer)?.content).toBe('blue');
+   */
+  public async sendMessage(
+    channel: TextChannel | DMChannel,
+    author: User,
+    content: string | { content?: string; embeds?: APIMessage['embeds'] } = ''
+  ): Promise<Message> {
+    const data = this.buildMessage(channel, author, content);
+    const message = cacheStructure<OmitPartialGroupDMChannel<Message>>(Message, [this.client, data], channel.messages.cache);
+
+    this.client.emit(Events.MessageCreate, message);
+    await this.flush();
+    return message;
+  }
+
+  /**
+   * Simulates a user clicking a button of a message, emitting `interactionCreate`
+   * @param message - The message holding the button, as a discord.js message or API payload
+   * @param user - The user clicking
+   * @param customId - The custom ID of the button
+   * @param options - Configuration options for the interaction
+   * @param options.locale - The user's locale (default: the harness locale)
+   * @returns {Promise<ButtonInteraction>} - The interaction, once the handlers it triggered have settled
+   * @example
+   * const confirmed = interactiveConfirm(alice, { channel, content: 'Delete everything?' });
+   * await harness.flush();
+   * await harness.clickButton(harness.rest.filter('send')[0].message!, alice, 'confirm');
+   * expect(await confirmed).toBe(true);
+   */
+  public async clickButton(
+    message: Message | APIMessage,
+    user: User,
+    customId: string,
+    options: { locale?: string } = {}
+  ): Promise<ButtonInteraction> {
+    return this.emitFromMessage(
+      message,
+      user,
+      InteractionType.MessageComponent,
+      { custom_id: customId, component_type: ComponentType.Button },
+      ButtonInteraction,
+      options
+    );
+  }
+
+  /**
+   * Simulates a user picking values of a string select menu, emitting `interactionCreate`
+   * @param message - The message holding the select menu, as a discord.js message or API payload
+   * @param user - The user picking
+   * @param customId - The custom ID of the select menu
+   * @param values - The picked values
+   * @param options - Configuration options for the interaction
+   * @param options.locale - The user's locale (default: the harness locale)
+   * @returns {Promise<StringSelectMenuInteraction>} - The interaction, once the handlers it triggered have settled
+   */
+  public async selectMenu(
+    message: Message | APIMessage,
+    user: User,
+    customId: string,
+    values: string[],
+    options: { locale?: string } = {}
+  ): Promise<StringSelectMenuInteraction> {
+    return this.emitFromMessage(
+      message,
+      user,
+      InteractionType.MessageComponent,
+      { custom_id: customId, component_type: ComponentType.StringSelect, values },
+      StringSelectMenuInteraction,
+      options
+    );
+  }
+
+  /**
+   * Simulates a user submitting a modal that was opened from a message component, emitting `interactionCreate`
+   * @param message - The message holding the component that opened the modal
+   * @param user - The user submitting
+   * @param customId - The custom ID of the modal
+   * @param fields - The text input values keyed by their custom IDs
+   * @param options - Configuration options for the interaction
+   * @param options.locale - The user's locale (default: the harness locale)
+   * @returns {Promise<ModalSubmitInteraction>} - The interaction, once the handlers it triggered have settled
+   * @example
+   * await harness.clickButton(message, alice, 'jump');
+   * const [modal] = harness.rest.filter('showModal');
+   * await harness.submitModal(message, alice, modal.body.data.custom_id, { page: '12' });
+   */
+  public async submitModal(
+    message: Message | APIMessage,
+    user: User,
+    customId: string,
+    fields: Record<string, string>,
+    options: { locale?: string } = {}
+  ): Promise<ModalSubmitInteraction> {
+    const components = Object.entries(fields).map(([id, value]) => ({
+      type: ComponentType.ActionRow,
+      components: [{ type: ComponentType.TextInput, custom_id: id, value }]
+    }));
+
+    return this.emitFromMessage(
+      message,
+      user,
+      InteractionType.ModalSubmit,
+      { custom_id: customId, components },
+      ModalSubmitInteraction,
+      options
+    );
+  }
+
+  /**
+   * Creates a slash command interaction without emitting it
+   * @param commandName - The command name
+   * @param context - The user and channel of the interaction
+   * @param options - The option values keyed by option name; user, member, role and channel values are resolved
+   * @param subcommand - The subcommand, or the subcommand group and subcommand separated by a space
+   * @returns {ChatInputCommandInteraction} - The interaction, ready to be passed to a handler or a registry
+   * @example
+   * const interaction = harness.createChatInputInteraction('ban', { user: moderator, channel }, {
+   *   target: alice,
+   *   reason: 'Spam'
+   * });
+   *
+   * await registry.dispatch(interaction);
+   * expect(harness.rest.filter('reply')[0].message?.content).toBe('Banned alice.');
+   */
+  public createChatInputInteraction(
+    commandName: string,
+    context: TestInteractionContext,
+    options: Record<string, TestOptionValue> = {},
+    subcommand?: string
+  ): ChatInputCommandInteraction {
+    const resolved: Record<string, Record<string, unknown>> = {};
+    const resolve = (key: string, id: string, value: unknown) => {
+      resolved[key] = { ...resolved[key], [id]: value };
+    };
+
+    let commandOptions: unknown[] = Object.entries(options).map(([name, value]) => {
+      if (typeof value === 'string') {
+        return { name, type: ApplicationCommandOptionType.String, value };
+      }
+
+      if (typeof value === 'boolean') {
+        return { name, type: ApplicationCommandOptionType.Boolean, value };
+      }
+
+      if (typeof value === 'number') {
+        const type = Number.isInteger(value) ? ApplicationCommandOptionType.Integer : ApplicationCommandOptionType.Number;
+        return { name, type, value };
+      }
+
+      if (value instanceof User || value instanceof GuildMember) {
+        const user = value instanceof GuildMember ? value.user : value;
+        resolve('users', user.id, this.users.get(user.id));
+
+        if (value instanceof GuildMember) {
+          const { user: _, ...member } = this.members.get(`${value.guild.id}:${user.id}`)!;
+          resolve('members', user.id, { ...member, permissions: value.permissions.bitfield.toString() });
+        }
+
+        return { name, type: ApplicationCommandOptionType.User, value: user.id };
+      }
+
+      if (value instanceof Role) {
+        resolve('roles', value.id, this.roles.get(value.id));
+        return { name, type: ApplicationCommandOptionType.Role, value: value.id };
+      }
+
+      const channel: APIInteractionDataResolvedChannel = {
+        id: value.id,
+        name: value.name,
+        type: value.type as APIInteractionDataResolvedChannel['type'],
+        permissions: PermissionsBitField.All.toString()
+      };
+      resolve('channels', value.id, channel);
+      return { name, type: ApplicationCommandOptionType.Channel, value: value.id };
+    });
+
+    for (const [index, name] of (subcommand?.split(' ') ?? []).reverse().entries()) {
+      const type = index === 0 ? ApplicationCommandOptionType.Subcommand : ApplicationCommandOptionType.SubcommandGroup;
+      commandOptions = [{ name, type, options: commandOptions }];
+    }
+
+    return this.createInteraction(ChatInputCommandInteraction, context, InteractionType.ApplicationCommand, {
+      data: {
+        id: this.generateId(),
+        name: commandName,
+        type: ApplicationCommandType.ChatInput,
+        options: commandOptions,
+        resolved
+      }
+    });
+  }
+
+  /**
+   * Simulates a user running a slash command, emitting `interactionCreate`
+   * @param commandName - The command name
+   * @param context - The user and channel of the interaction
+   * @param options - The option values keyed by option name
+   * @param subcommand - The subcommand, or the subcommand group and subcommand separated by a space
+   * @returns {Promise<ChatInputCommandInteraction>} - The interaction, once the handlers it triggered have settled
+   * @example
+   * client.on('interactionCreate', (interaction) => registry.dispatch(interaction));
+   * await harness.runCommand('ping', { user: alice, channel });
+   */
+  public async runCommand(
+    commandName: string,
+    context: TestInteractionContext,
+    options: Record<string, TestOptionValue> = {},
+    subcommand?: string
+  ): Promise<ChatInputCommandInteraction> {
+    const interaction = this.createChatInputInteraction(commandName, context, options, subcommand);
+
+    this.client.emit(Events.InteractionCreate, interaction);
+    await this.flush();
+    return interaction;
+  }
+
+  /**
+   * Waits until the handlers triggered so far have settled
+   * @returns {Promise<void>} - Resolves once no request is in flight and the microtask queue has drained
+   * @description Only microtasks are awaited, so this works the same with real and fake timers
+   */
+  public async flush(): Promise<void> {
+    let idleTurns = 0;
+
+    // Each request resumes its caller a few microtasks later, which may start the next request
+    while (idleTurns < 50) {
+      await Promise.resolve();
+      idleTurns = this.rest.idle ? idleTurns + 1 : 0;
+    }
+  }
+
+  /**
+   * Destroys the client; collectors still running are left to their timers
+   * @returns {Promise<void>}
+   */
+  public async destroy(): Promise<void> {
+    await this.client.destroy();
+  }
+
+  // Snowflakes follow the (possibly fake) clock, so creation timestamps and token expiry line up with it
+  private generateId(): string {
+    return SnowflakeUtil.generate().toString();
+  }
+
+  private buildUser(options: { username?: string; globalName?: string; bot?: boolean }, id = this.generateId()): APIUser {
+    const user: APIUser = {
+      id,
+      username: options.username ?? 'user',
+      global_name: options.globalName ?? null,
+      discriminator: '0',
+      avatar: null,
+      bot: !!options.bot
+    };
+
+    this.users.set(id, user);
+    return user;
+  }
+
+  private buildRole(
+    guildId: string,
+    options: { name: string; permissions: PermissionResolvable; position: number },
+    id = this.generateId()
+  ): APIRole {
+    const role: APIRole = {
+      id,
+      name: options.name,
+      color: 0,
+      hoist: false,
+      icon: null,
+      unicode_emoji: null,
+      position: options.position,
+      permissions: PermissionsBitField.resolve(options.permissions).toString(),
+      managed: false,
+      mentionable: false,
+      flags: 0 as RoleFlags
+    };
+
+    this.roles.set(id, role);
+    return role;
+  }
+
+  private buildMessage(
+    channel: TextChannel | DMChannel,
+    author: User,
+    content: string | { content?: string; embeds?: APIMessage['embeds'] }
+  ): APIMessage {
+    const { content: text = '', embeds = [] } = typeof content === 'string' ? { content } : content;
+    const message: APIMessage & { guild_id?: string; member?: Omit<APIGuildMember, 'user'> } = {
+      id: this.generateId(),
+      channel_id: channel.id,
+      author: this.users.get(author.id) ?? this.buildUser({ username: author.username, bot: author.bot }, author.id),
+      content: text,
+      timestamp: new Date().toISOString(),
+      edited_timestamp: null,
+      tts: false,
+      mention_everyone: false,
+      mentions: [],
+      mention_roles: [],
+      attachments: [],
+      embeds,
+      components: [],
+      pinned: false,
+      type: MessageType.Default
+    };
+
+    if ('guild' in channel) {
+      const member = this.members.get(`${channel.guild.id}:${author.id}`);
+
+      message.guild_id = channel.guild.id;
+      if (member) {
+        const { user: _, ...rest } = member;
+        message.member = rest;
+      }
+    }
+
+    this.rest.storeMessage(message);
+    return message;
+  }
+
+  private createInteraction<T>(
+    Structure: unknown,
+    context: TestInteractionContext,
+    type: InteractionType,
+    fields: Record<string, unknown>,
+    messageId: string | null = null
+  ): T {
+    const { user, channel } = context;
+    const id = this.generateId();
+    const token = `token-${id}`;
+    const data: Record<string, unknown> = {
+      id,
+      application_id: this.client.user.id,
+      type,
+      token,
+      version: 1,
+      channel_id: channel.id,
+      channel: { id: channel.id, type: channel.type },
+      locale: context.locale ?? this.locale,
+      app_permissions: PermissionsBitField.All.toString(),
+      entitlements: [],
+      authorizing_integration_owners: {},
+      ...fields
+    };
+
+    if ('guild' in channel) {
+      const member = channel.guild.members.cache.get(user.id);
+
+      data.guild_id = channel.guild.id;
+      data.guild_locale = channel.guild.preferredLocale;
+      data.member = {
+        ...(this.members.get(`${channel.guild.id}:${user.id}`) ?? { roles: [], joined_at: new Date().toISOString(), deaf: false, mute: false, flags: 0 }),
+        user: this.users.get(user.id),
+        permissions: (member?.permissions.bitfield ?? 0n).toString()
+      };
+    } else {
+      data.user = this.users.get(user.id);
+    }
+
+    this.rest.registerInteraction(token, { id, type, channelId: channel.id, messageId });
+    return new (Structure as StructureConstructor<T>)(this.client, data);
+  }
+
+  private async emitFromMessage<T>(
+    message: Message | APIMessage,
+    user: User,
+    type: InteractionType,
+    fields: Record<string, unknown>,
+    Structure: unknown,
+    options: { locale?: string }
+  ): Promise<T> {
+    const data = this.rest.messages.get(message.id);
+    const channel = this.client.channels.cache.get(data?.channel_id ?? '');
+
+    if (!data || !channel || !(channel instanceof TextChannel || channel instanceof DMChannel)) {
+      throw new Error(`Message ${message.id} was not sent in a channel created by the harness`);
+    }
+
+    const interaction = this.createInteraction<T>(
+      Structure,
+      { user, channel, locale: options.locale },
+      type,
+      { data: fields, message: data },
+      message.id
+    );
+
+    this.client.emit(Events.InteractionCreate, interaction as unknown as ButtonInteraction);
+    await this.flush();
+    return interaction;
+  }
+}
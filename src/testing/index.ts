@@ -0,0 +1,5 @@
+// Test Harness Utilities
+export * from './harness';
+
+// REST Mock Utilities
+export * from './rest';
@@ -0,0 +1,378 @@
+import {
+  APIMessage,
+  APIUser,
+  DiscordAPIError,
+  InteractionResponseType,
+  MessageFlags,
+  MessageType,
+  RESTJSONErrorCodes,
+} from 'discord.js';
+
+/**
+ * What a recorded request did, derived from its route and, for interaction callbacks, its response type
+ */
+export type RecordedRequestKind =
+  | 'send'
+  | 'edit'
+  | 'delete'
+  | 'fetch'
+  | 'reply'
+  | 'deferReply'
+  | 'deferUpdate'
+  | 'update'
+  | 'editReply'
+  | 'deleteReply'
+  | 'followUp'
+  | 'autocomplete'
+  | 'showModal'
+  | 'other';
+
+/**
+ * A request the library made to the Discord API during a test
+ */
+export interface RecordedRequest {
+  kind: RecordedRequestKind;
+  method: string;
+  route: string;
+  /** The JSON body the library sent, e.g. a `RESTPostAPIChannelMessageJSONBody` for a sent message */
+  body: unknown;
+  /** The message the request created, edited, fetched or deleted, if any */
+  message: APIMessage | null;
+}
+
+/**
+ * Produces the response of a mocked route
+ * @param request - The request, with the parts of the route matched by the pattern's capture groups
+ */
+export type MockRouteHandler = (request: {
+  method: string;
+  route: string;
+  body: unknown;
+  params: string[];
+}) => unknown | Promise<unknown>;
+
+/**
+ * The parts of a discord.js REST request the mock reads
+ */
+interface MockRequest {
+  method: string;
+  fullRoute: string;
+  body?: unknown;
+  query?: URLSearchParams;
+}
+
+interface InteractionState {
+  id: string;
+  type: number;
+  channelId: string;
+  /** The message a component interaction was used on */
+  messageId: string | null;
+  /** The original response of the interaction */
+  responseId: string | null;
+  acknowledged: boolean;
+}
+
+type RouteHandler = (request: MockRequest, params: string[]) => unknown | Promise<unknown>;
+
+const EDITABLE_FIELDS = ['content', 'embeds', 'components', 'attachments', 'flags', 'poll'] as const;
+
+/**
+ * The parts of a message create or edit body the mock copies into the simulated message
+ */
+type MessageBody = Partial<Pick<APIMessage, (typeof EDITABLE_FIELDS)[number] | 'tts'>>;
+
+/**
+ * Answers the REST requests of a test client from memory, recording each of them
+ * @class
+ * @description Channel messages, interaction callbacks and webhook (interaction response) messages are
+ * simulated; any other route resolves with no body unless it is mocked with {@link MockRest.mockRoute}
+ * @example
+ * const { rest } = harness;
+ *
+ * // Simulate a failing DM
+ * rest.mockRoute('POST', /^\/users\/@me\/channels$/, () => {
+ *   throw new Error('Cannot send messages to this user');
+ * });
+ */
+export class MockRest {
+  /** Every request made so far, in order */
+  public readonly requests: RecordedRequest[] = [];
+  /** The messages known to the mock, keyed by ID */
+  public readonly messages: Map<string, APIMessage> = new Map();
+
+  private readonly interactions: Map<string, InteractionState> = new Map();
+  private readonly mocks: Array<{ method: string; pattern: RegExp; handler: MockRouteHandler }> = [];
+  private readonly routes: Array<{ method: string; pattern: RegExp; handler: RouteHandler }>;
+  private pending = 0;
+
+  /**
+   * @param botUser - The user that authors the messages the bot sends
+   * @param generateId - Produces the IDs of created messages
+   */
+  constructor(
+    private readonly botUser: APIUser,
+    private readonly generateId: () => string
+  ) {
+    this.routes = [
+      { method: 'POST', pattern: /^\/channels\/(\d+)\/messages$/, handler: (request, [channelId]) =>
+        this.createMessage('send', request, channelId) },
+      { method: 'PATCH', pattern: /^\/channels\/\d+\/messages\/(\d+)$/, handler: (request, [messageId]) =>
+        this.editMessage('edit', request, messageId) },
+      { method: 'DELETE', pattern: /^\/channels\/\d+\/messages\/(\d+)$/, handler: (request, [messageId]) =>
+        this.deleteMessage('delete', request, messageId) },
+      { method: 'GET', pattern: /^\/channels\/\d+\/messages\/(\d+)$/, handler: (request, [messageId]) =>
+        this.fetchMessage(request, messageId) },
+      { method: 'POST', pattern: /^\/interactions\/\d+\/([^/]+)\/callback$/, handler: (request, [token]) =>
+        this.respond(request, token) },
+      { method: 'POST', pattern: /^\/webhooks\/\d+\/([^/]+)$/, handler: (request, [token]) =>
+        this.createMessage('followUp', request, this.getInteraction(request, token).channelId) },
+      { method: 'PATCH', pattern: /^\/webhooks\/\d+\/([^/]+)\/messages\/([^/]+)$/, handler: (request, [token, messageId]) =>
+        this.editMessage('editReply', request, this.resolveWebhookMessage(request, token, messageId)) },
+      { method: 'DELETE', pattern: /^\/webhooks\/\d+\/([^/]+)\/messages\/([^/]+)$/, handler: (request, [token, messageId]) =>
+        this.deleteMessage('deleteReply', request, this.resolveWebhookMessage(request, token, messageId)) },
+      { method: 'GET', pattern: /^\/webhooks\/\d+\/([^/]+)\/messages\/([^/]+)$/, handler: (request, [token, messageId]) =>
+        this.fetchMessage(request, this.resolveWebhookMessage(request, token, messageId)) }
+    ];
+  }
+
+  /**
+   * Whether requests are still being answered
+   */
+  public get idle(): boolean {
+    return this.pending === 0;
+  }
+
+  /**
+   * Answers a route with a custom handler, taking precedence over the built-in simulation
+   * @param method - The HTTP method, e.g. 'POST'
+   * @param pattern - The route, or a pattern whose capture groups are passed to the handler
+   * @param handler - Produces the response body; throwing makes the request fail
+   * @returns {this} - The mock, for chaining
+   * @example
+   * rest.mockRoute('GET', /^\/guilds\/(\d+)\/bans$/, () => []);
+   */
+  public mockRoute(method: string, pattern: string | RegExp, handler: MockRouteHandler): this {
+    const regex = typeof pattern === 'string'
+      ? new RegExp(`^${pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`)
+      : pattern;
+
+    this.mocks.unshift({ method: method.toUpperCase(), pattern: regex, handler });
+    return this;
+  }
+
+  /**
+   * Lists the recorded requests of a kind
+   * @param kind - The kind of request
+   * @returns {RecordedRequest[]} - The matching requests, in order
+   */
+  public filter(kind: RecordedRequestKind): RecordedRequest[] {
+    return this.requests.filter(request => request.kind === kind);
+  }
+
+  /**
+   * Forgets the recorded requests, keeping the known messages
+   */
+  public clear(): void {
+    this.requests.length = 0;
+  }
+
+  /**
+   * Stores a message so it can be edited, fetched and used in interactions
+   * @internal
+   */
+  public storeMessage(message: APIMessage): void {
+    this.messages.set(message.id, message);
+  }
+
+  /**
+   * Tracks an interaction so its callbacks and webhook messages can be answered
+   * @internal
+   */
+  public registerInteraction(token: string, state: Omit<InteractionState, 'responseId' | 'acknowledged'>): void {
+    this.interactions.set(token, { ...state, responseId: null, acknowledged: false });
+  }
+
+  /**
+   * Answers a request made through the client's REST manager
+   * @internal
+   */
+  public async handle(request: MockRequest): Promise<unknown> {
+    this.pending++;
+
+    try {
+      for (const { method, pattern, handler } of this.mocks) {
+        const match = request.method === method && pattern.exec(request.fullRoute);
+
+        if (match) {
+          this.record('other', request, null);
+          return await handler({ method, route: request.fullRoute, body: request.body, params: match.slice(1) });
+        }
+      }
+
+      for (const { method, pattern, handler } of this.routes) {
+        const match = request.method === method && pattern.exec(request.fullRoute);
+
+        if (match) {
+          return await handler(request, match.slice(1));
+        }
+      }
+
+      this.record('other', request, null);
+      return undefined;
+    } finally {
+      this.pending--;
+    }
+  }
+
+  private record(kind: RecordedRequestKind, request: MockRequest, message: APIMessage | null): void {
+    this.requests.push({ kind, method: request.method, route: request.fullRoute, body: request.body, message });
+  }
+
+  private fail(request: MockRequest, code: number, message: string): never {
+    throw new DiscordAPIError(
+      { code, message },
+      code,
+      404,
+      request.method,
+      request.fullRoute,
+      { body: request.body }
+    );
+  }
+
+  private getInteraction(request: MockRequest, token: string): InteractionState {
+    return this.interactions.get(token) ?? this.fail(request, RESTJSONErrorCodes.UnknownInteraction, 'Unknown interaction');
+  }
+
+  private getMessage(request: MockRequest, messageId: string): APIMessage {
+    return this.messages.get(messageId) ?? this.fail(request, RESTJSONErrorCodes.UnknownMessage, 'Unknown Message');
+  }
+
+  private resolveWebhookMessage(request: MockRequest, token: string, messageId: string): string {
+    if (decodeURIComponent(messageId) !== '@original') {
+      return messageId;
+    }
+
+    return this.getInteraction(request, token).responseId ??
+      this.fail(request, RESTJSONErrorCodes.UnknownMessage, 'Unknown Message');
+  }
+
+  private buildMessage(channelId: string, body: MessageBody | undefined): APIMessage {
+    const message: APIMessage = {
+      id: this.generateId(),
+      channel_id: channelId,
+      author: this.botUser,
+      content: body?.content ?? '',
+      timestamp: new Date().toISOString(),
+      edited_timestamp: null,
+      tts: !!body?.tts,
+      mention_everyone: false,
+      mentions: [],
+      mention_roles: [],
+      attachments: [],
+      embeds: body?.embeds ?? [],
+      components: body?.components ?? [],
+      pinned: false,
+      type: MessageType.Default,
+      flags: body?.flags ?? 0 as MessageFlags
+    };
+
+    this.messages.set(message.id, message);
+    return message;
+  }
+
+  private createMessage(kind: RecordedRequestKind, request: MockRequest, channelId: string): APIMessage {
+    const message = this.buildMessage(channelId, request.body as MessageBody | undefined);
+    this.record(kind, request, message);
+    return message;
+  }
+
+  private applyEdit(messageId: string, body: MessageBody | undefined, request: MockRequest): APIMessage {
+    const existing = this.getMessage(request, messageId);
+    const message: APIMessage = { ...existing, edited_timestamp: new Date().toISOString() };
+
+    for (const field of EDITABLE_FIELDS) {
+      if (body?.[field] !== undefined) {
+        Object.assign(message, { [field]: body[field] });
+      }
+    }
+
+    // An edited deferred response is no longer loading
+    message.flags = (message.flags ?? 0) & ~MessageFlags.Loading;
+    this.messages.set(messageId, message);
+    return message;
+  }
+
+  private editMessage(kind: RecordedRequestKind, request: MockRequest, messageId: string): APIMessage {
+    const message = this.applyEdit(messageId, request.body as MessageBody | undefined, request);
+    this.record(kind, request, message);
+    return message;
+  }
+
+  private deleteMessage(kind: RecordedRequestKind, request: MockRequest, messageId: string): undefined {
+    const message = this.getMessage(request, messageId);
+    this.messages.delete(messageId);
+    this.record(kind, request, message);
+    return undefined;
+  }
+
+  private fetchMessage(request: MockRequest, messageId: string): APIMessage {
+    const message = this.getMessage(request, messageId);
+    this.record('fetch', request, message);
+    return message;
+  }
+
+  private respond(request: MockRequest, token: string): unknown {
+    const interaction = this.getInteraction(request, token);
+    const { type, data } = request.body as { type: InteractionResponseType; data?: MessageBody };
+    let kind: RecordedRequestKind = 'other';
+    let message: APIMessage | null = null;
+
+    if (interaction.acknowledged) {
+      this.fail(request, RESTJSONErrorCodes.InteractionHasAlreadyBeenAcknowledged, 'Interaction has already been acknowledged.');
+    }
+
+    switch (type) {
+      case InteractionResponseType.ChannelMessageWithSource:
+        kind = 'reply';
+        message = this.buildMessage(interaction.channelId, data);
+        break;
+      case InteractionResponseType.DeferredChannelMessageWithSource:
+        kind = 'deferReply';
+        message = this.buildMessage(interaction.channelId, { flags: (data?.flags ?? 0) | MessageFlags.Loading });
+        break;
+      case InteractionResponseType.DeferredMessageUpdate:
+        kind = 'deferUpdate';
+        message = interaction.messageId ? this.getMessage(request, interaction.messageId) : null;
+        break;
+      case InteractionResponseType.UpdateMessage:
+        kind = 'update';
+        message = interaction.messageId ? this.applyEdit(interaction.messageId, data, request) : null;
+        break;
+      case InteractionResponseType.ApplicationCommandAutocompleteResult:
+        kind = 'autocomplete';
+        break;
+      case InteractionResponseType.Modal:
+        kind = 'showModal';
+        break;
+    }
+
+    interaction.acknowledged = true;
+    interaction.responseId = message?.id ?? null;
+    this.record(kind, request, message);
+
+    if (request.query?.get('with_response') !== 'true') {
+      return undefined;
+    }
+
+    return {
+      interaction: {
+        id: interaction.id,
+        type: interaction.type,
+        response_message_id: message?.id,
+        response_message_loading: !!(message && (message.flags ?? 0) & MessageFlags.Loading),
+        response_message_ephemeral: !!(message && (message.flags ?? 0) & MessageFlags.Ephemeral)
+      },
+      resource: { type, message: message ?? undefined }
+    };
+  }
+}
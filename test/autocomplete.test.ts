@@ -0,0 +1,65 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { describe, mock, test } from 'node:test';
+import { AutocompleteInteraction } from 'discord.js';
+import { debounceProvider, fuzzyChoices, rankChoices } from '../src';
+
+/**
+ * The parts of an autocomplete interaction the providers read
+ */
+function fakeInteraction(userId: string, option = 'song'): AutocompleteInteraction {
+  return {
+    user: { id: userId },
+    commandName: 'play',
+    options: { getFocused: () => ({ name: option, value: '' }) }
+  } as unknown as AutocompleteInteraction;
+}
+
+describe('rankChoices', () => {
+  test('ranks exact, prefix, word start, substring and scattered matches in that order', () => {
+    const items = ['gxexn', 'off-topic', 'legend', 'dev-general', 'generalist', 'gen'];
+
+    assert.deepEqual(rankChoices('Gen', items), ['gen', 'generalist', 'dev-general', 'legend', 'gxexn']);
+  });
+
+  test('keeps the original order for an empty query and ties', () => {
+    assert.deepEqual(rankChoices('  ', ['b', 'a']), ['b', 'a']);
+    assert.deepEqual(rankChoices('a', ['ab', 'ac']), ['ab', 'ac']);
+  });
+
+  test('matches an item by the best of its texts', () => {
+    const members = [{ username: 'zed', nickname: 'Bobby' }, { username: 'bob', nickname: 'Robert' }];
+
+    assert.deepEqual(rankChoices('bob', members, member => [member.username, member.nickname]).map(member => member.username), ['bob', 'zed']);
+  });
+});
+
+describe('fuzzyChoices', () => {
+  test('ranks choices by their names', async () => {
+    const provider = fuzzyChoices([{ name: 'Banana', value: 'b' }, { name: 'Apple', value: 'a' }, 'Pineapple']);
+
+    assert.deepEqual(await provider('apple', fakeInteraction('1')), [{ name: 'Apple', value: 'a' }, 'Pineapple']);
+  });
+});
+
+describe('debounceProvider', () => {
+  test('only runs the provider for the last keystroke of a user', async () => {
+    const queries: string[] = [];
+    const provider = debounceProvider(query => {
+      queries.push(query);
+      return [query];
+    }, { delay: 300 });
+
+    const first = provider('ro', fakeInteraction('1'));
+    mock.timers.tick(200);
+    const second = provider('roc', fakeInteraction('1'));
+    const other = provider('ja', fakeInteraction('2'));
+
+    assert.deepEqual(await first, []);
+    mock.timers.tick(300);
+
+    assert.deepEqual(await second, ['roc']);
+    assert.deepEqual(await other, ['ja']);
+    assert.deepEqual(queries, ['roc', 'ja']);
+  });
+});
@@ -0,0 +1,83 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import { autoDefer } from '../src';
+import { setup, teardown, TestSetup } from './helpers';
+
+let context: TestSetup;
+
+beforeEach(() => {
+  context = setup();
+});
+
+afterEach(async () => {
+  await teardown(context);
+});
+
+describe('autoDefer', () => {
+  test('defers an interaction that was not responded to in time', async () => {
+    const { harness, channel, alice } = context;
+    const interaction = harness.createChatInputInteraction('report', { user: alice, channel });
+    autoDefer(interaction, { delay: 1000 });
+
+    mock.timers.tick(1000);
+    await harness.flush();
+
+    assert.equal(interaction.deferred, true);
+  });
+
+  test('does not defer while the first response is still in flight', async () => {
+    const { harness, channel, alice } = context;
+    const interaction = harness.createChatInputInteraction('report', { user: alice, channel });
+    const callbacks = () => harness.rest.requests.filter(request => request.route.endsWith('/callback'));
+    let respond: (() => void) | undefined;
+    let requested!: () => void;
+    const inFlight = new Promise<void>(resolve => {
+      requested = resolve;
+    });
+
+    // Holds the first callback until the auto-defer delay has passed
+    harness.rest.mockRoute('POST', /^\/interactions\/\d+\/[^/]+\/callback$/, () => {
+      if (respond) {
+        return undefined;
+      }
+
+      requested();
+      return new Promise<void>(resolve => {
+        respond = resolve;
+      });
+    });
+
+    const cancel = autoDefer(interaction, { delay: 1000 });
+    const reply = interaction.reply('Done');
+    await inFlight;
+
+    mock.timers.tick(1000);
+    respond?.();
+    await reply;
+    await harness.flush();
+    cancel();
+
+    assert.equal(callbacks().length, 1);
+    assert.equal(interaction.deferred, false);
+  });
+
+  test('puts back response methods the interaction had as its own properties', async () => {
+    const { harness, channel, alice } = context;
+    const interaction = harness.createChatInputInteraction('report', { user: alice, channel });
+    const replies: unknown[] = [];
+    const reply = async (options: unknown) => {
+      replies.push(options);
+    };
+    Object.assign(interaction, { reply });
+
+    const cancel = autoDefer(interaction, { delay: 1000 });
+    assert.notEqual(interaction.reply, reply);
+    cancel();
+
+    assert.equal(interaction.reply, reply);
+    assert.equal(Object.prototype.hasOwnProperty.call(interaction, 'deferReply'), false);
+    await interaction.reply('Done');
+    assert.deepEqual(replies, ['Done']);
+  });
+});
@@ -0,0 +1,163 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import {
+  APIApplicationCommand,
+  ApplicationCommandOptionType,
+  ApplicationCommandType,
+  RESTPostAPIApplicationCommandsJSONBody
+} from 'discord.js';
+import { CommandRestClient, diffCommands, formatCommandDiff, syncCommands } from '../src';
+
+class FakeRest implements CommandRestClient {
+  public readonly requests: Array<{ method: string; route: string; body?: unknown }> = [];
+
+  constructor(private readonly registered: APIApplicationCommand[]) {}
+
+  public async get(route: `/${string}`): Promise<unknown> {
+    this.requests.push({ method: 'GET', route });
+    return this.registered;
+  }
+
+  public async post(route: `/${string}`, options: { body: unknown }): Promise<unknown> {
+    this.requests.push({ method: 'POST', route, body: options.body });
+    return options.body;
+  }
+
+  public async put(route: `/${string}`, options: { body: unknown }): Promise<unknown> {
+    this.requests.push({ method: 'PUT', route, body: options.body });
+    return options.body;
+  }
+
+  public async delete(route: `/${string}`): Promise<unknown> {
+    this.requests.push({ method: 'DELETE', route });
+    return undefined;
+  }
+
+  public writes(): Array<{ method: string; route: string; body?: unknown }> {
+    return this.requests.filter(request => request.method !== 'GET');
+  }
+}
+
+const ban: RESTPostAPIApplicationCommandsJSONBody = {
+  name: 'ban',
+  description: 'Bans a member',
+  default_member_permissions: '4',
+  options: [
+    { type: ApplicationCommandOptionType.User, name: 'target', description: 'The member', required: true },
+    { type: ApplicationCommandOptionType.String, name: 'reason', description: 'Why' }
+  ]
+};
+
+const ping: RESTPostAPIApplicationCommandsJSONBody = { name: 'ping', description: 'Pong' };
+
+/**
+ * Turns a local payload into the command Discord would return for it
+ */
+function registered(command: RESTPostAPIApplicationCommandsJSONBody, id: string): APIApplicationCommand {
+  return {
+    id,
+    application_id: '1',
+    version: '1',
+    type: ApplicationCommandType.ChatInput,
+    description: '',
+    default_member_permissions: null,
+    ...command
+  } as APIApplicationCommand;
+}
+
+const options = (rest: FakeRest, commands: RESTPostAPIApplicationCommandsJSONBody[], dryRun = false) => ({
+  rest,
+  applicationId: '1',
+  commands,
+  dryRun,
+  logger: () => {}
+});
+
+describe('diffCommands', () => {
+  test('detects added, removed and unchanged commands', () => {
+    const diff = diffCommands([ban], [registered(ban, '10'), registered(ping, '11')]);
+
+    assert.deepEqual(diff.unchanged, ['/ban']);
+    assert.deepEqual(diff.removed.map(command => command.name), ['ping']);
+    assert.deepEqual(diffCommands([ban, ping], [registered(ban, '10')]).added, [ping]);
+  });
+
+  test('detects changes to localizations, permissions and option order', () => {
+    const remote = registered(ban, '10');
+    const changed: RESTPostAPIApplicationCommandsJSONBody = {
+      ...ban,
+      name_localizations: { de: 'bannen' },
+      default_member_permissions: '8',
+      options: [...ban.options!].reverse()
+    };
+
+    assert.deepEqual(diffCommands([changed], [remote]).changed[0].changes, [
+      '~ name_localizations: undefined -> {"de":"bannen"}',
+      '~ default_member_permissions: "4" -> "8"',
+      '~ option order'
+    ]);
+  });
+
+  test('ignores localizations that only differ in key order or null entries', () => {
+    const local = { ...ban, description_localizations: { fr: 'Bannit', de: 'Bannt' } };
+    const remote = registered({ ...ban, description_localizations: { de: 'Bannt', fr: 'Bannit', 'es-ES': null } }, '10');
+
+    assert.deepEqual(diffCommands([local], [remote]).unchanged, ['/ban']);
+  });
+});
+
+describe('formatCommandDiff', () => {
+  test('lists every change with its details', () => {
+    const diff = diffCommands(
+      [ping, { ...ban, description: 'Bans a user' }],
+      [registered(ban, '10'), registered({ name: 'old', description: 'Old' }, '12')]
+    );
+
+    assert.equal(formatCommandDiff(diff), [
+      '+ /ping',
+      '~ /ban',
+      '    ~ description: "Bans a member" -> "Bans a user"',
+      '- /old'
+    ].join('\n'));
+    assert.equal(formatCommandDiff(diffCommands([], [])), 'No changes');
+  });
+});
+
+describe('syncCommands', () => {
+  test('sends nothing when the commands are unchanged', async () => {
+    const rest = new FakeRest([registered(ban, '10')]);
+    const { requests } = await syncCommands(options(rest, [ban]));
+
+    assert.equal(requests, 0);
+    assert.deepEqual(rest.writes(), []);
+  });
+
+  test('posts or deletes a single command that differs', async () => {
+    const added = new FakeRest([registered(ban, '10')]);
+    await syncCommands(options(added, [ban, ping]));
+    assert.deepEqual(added.writes(), [{ method: 'POST', route: '/applications/1/commands', body: ping }]);
+
+    const removed = new FakeRest([registered(ban, '10'), registered(ping, '11')]);
+    await syncCommands(options(removed, [ban]));
+    assert.deepEqual(removed.writes(), [{ method: 'DELETE', route: '/applications/1/commands/11' }]);
+  });
+
+  test('replaces every command with one PUT when several differ', async () => {
+    const rest = new FakeRest([registered({ name: 'old', description: 'Old' }, '12')]);
+    const { requests } = await syncCommands({ ...options(rest, [ban, ping]), guildId: '2' });
+
+    assert.equal(requests, 1);
+    assert.deepEqual(rest.writes(), [{ method: 'PUT', route: '/applications/1/guilds/2/commands', body: [ban, ping] }]);
+  });
+
+  test('only reads the registered commands in a dry run', async () => {
+    const rest = new FakeRest([]);
+    const logged: string[] = [];
+    const { diff, requests } = await syncCommands({ ...options(rest, [ban, ping], true), logger: message => logged.push(message) });
+
+    assert.equal(requests, 0);
+    assert.equal(diff.added.length, 2);
+    assert.deepEqual(rest.requests.map(request => request.method), ['GET']);
+    assert.deepEqual(logged, ['Global commands:\n+ /ban\n+ /ping']);
+  });
+});
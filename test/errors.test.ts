@@ -0,0 +1,103 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import { CommandErrorEvent, generateIncidentId, handleCommandError, onCommandError } from '../src';
+import { setup, teardown, TestSetup } from './helpers';
+
+let context: TestSetup;
+
+beforeEach(() => {
+  context = setup();
+});
+
+afterEach(async () => {
+  await teardown(context);
+});
+
+describe('generateIncidentId', () => {
+  test('uses 8 characters without look-alikes', () => {
+    for (let i = 0; i < 50; i++) {
+      assert.match(generateIncidentId(), /^[A-HJ-NP-Z2-9]{8}$/);
+    }
+  });
+});
+
+describe('handleCommandError', () => {
+  test('replies with the incident ID and reports the failed command', async () => {
+    const { harness, guild, channel, alice } = context;
+    const events: CommandErrorEvent[] = [];
+    const unsubscribe = onCommandError(event => {
+      events.push(event);
+    });
+    const error = new Error('Database offline');
+
+    try {
+      const interaction = harness.createChatInputInteraction('warn', { user: alice, channel }, { reason: 'Spam', days: 3 }, 'member add');
+      const event = await handleCommandError(interaction, error);
+
+      assert.deepEqual(events, [event]);
+      assert.equal(event.error, error);
+      assert.equal(event.command, 'warn');
+      assert.deepEqual(event.options, { reason: 'Spam', days: 3 });
+      assert.equal(event.guildId, guild.id);
+      assert.equal(event.channelId, channel.id);
+      assert.equal(event.userId, alice.id);
+    } finally {
+      unsubscribe();
+    }
+
+    const embed = harness.rest.filter('reply')[0].message?.embeds[0];
+    assert.equal(embed?.description, 'Something went wrong while running this command.');
+    assert.equal(embed?.footer?.text, `Incident ID: ${events[0].incidentId}`);
+  });
+
+  test('edits the reply of a deferred interaction', async () => {
+    const { harness, channel, alice } = context;
+    const interaction = harness.createChatInputInteraction('warn', { user: alice, channel });
+    const unsubscribe = onCommandError(() => {});
+
+    try {
+      await interaction.deferReply();
+      const event = await handleCommandError(interaction, new Error('Timeout'));
+
+      assert.equal(harness.rest.filter('editReply')[0].message?.embeds[0].footer?.text, `Incident ID: ${event.incidentId}`);
+    } finally {
+      unsubscribe();
+    }
+  });
+
+  test('still calls the other listeners when one throws', async () => {
+    const { harness, channel, alice } = context;
+    const received: string[] = [];
+    const unsubscribers = [
+      onCommandError(() => {
+        throw new Error('Logger failed');
+      }),
+      onCommandError(async event => {
+        received.push(event.incidentId);
+      })
+    ];
+
+    try {
+      const event = await handleCommandError(harness.createChatInputInteraction('warn', { user: alice, channel }), new Error('Boom'));
+      assert.deepEqual(received, [event.incidentId]);
+    } finally {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+    }
+  });
+
+  test('logs to the console while no listener is registered', async () => {
+    const { harness, channel, alice } = context;
+    const log = mock.method(console, 'error', () => {});
+    const error = new Error('Boom');
+
+    try {
+      const event = await handleCommandError(harness.createChatInputInteraction('warn', { user: alice, channel }), error);
+
+      assert.equal(log.mock.callCount(), 1);
+      assert.deepEqual(log.mock.calls[0].arguments, [`Command "warn" failed (incident ${event.incidentId}):`, error]);
+    } finally {
+      log.mock.restore();
+    }
+  });
+});
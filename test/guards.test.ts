@@ -0,0 +1,107 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { MessageFlags, PermissionFlagsBits } from 'discord.js';
+import {
+  CommandGuard,
+  cooldown,
+  CooldownManager,
+  guildOnly,
+  nsfwOnly,
+  ownerOnly,
+  requirePermissions,
+  requireRoles,
+  runGuards
+} from '../src';
+import { advance, setup, teardown, TestSetup } from './helpers';
+
+let context: TestSetup;
+
+beforeEach(() => {
+  context = setup();
+});
+
+afterEach(async () => {
+  await teardown(context);
+});
+
+describe('runGuards', () => {
+  test('replies ephemerally with the first failure and skips the remaining guards', async () => {
+    const { harness, channel, alice } = context;
+    let reached = false;
+    const last: CommandGuard = () => {
+      reached = true;
+      return true;
+    };
+
+    const interaction = harness.createChatInputInteraction('eval', { user: alice, channel });
+
+    assert.equal(await runGuards(interaction, [guildOnly(), ownerOnly(['1']), last]), false);
+    assert.equal(reached, false);
+
+    const reply = harness.rest.filter('reply')[0].message;
+    assert.equal(reply?.content, 'This command can only be used by the bot owner.');
+    assert.equal((reply?.flags ?? 0) & MessageFlags.Ephemeral, MessageFlags.Ephemeral);
+  });
+
+  test('lets the command run when every guard passes', async () => {
+    const { harness, channel, alice } = context;
+    const interaction = harness.createChatInputInteraction('eval', { user: alice, channel });
+
+    assert.equal(await runGuards(interaction, [guildOnly(), ownerOnly([alice.id])]), true);
+    assert.equal(harness.rest.filter('reply').length, 0);
+  });
+});
+
+describe('guards', () => {
+  test('guildOnly rejects direct messages', async () => {
+    const { harness, alice } = context;
+    const interaction = harness.createChatInputInteraction('kick', { user: alice, channel: harness.createDMChannel(alice) });
+
+    assert.equal(await guildOnly()(interaction), 'This command can only be used in a server.');
+  });
+
+  test('requirePermissions names the permissions the member is missing', async () => {
+    const { harness, guild, channel, alice, bob } = context;
+    const moderator = harness.createRole(guild, { name: 'Moderator', permissions: PermissionFlagsBits.BanMembers });
+    harness.createMember(guild, bob, { roles: [moderator] });
+    const guard = requirePermissions([PermissionFlagsBits.BanMembers]);
+
+    assert.equal(await guard(harness.createChatInputInteraction('ban', { user: alice, channel })), 'You are missing the following permissions: BanMembers.');
+    assert.equal(await guard(harness.createChatInputInteraction('ban', { user: bob, channel })), true);
+    assert.deepEqual(guard.requirements, { permissions: [PermissionFlagsBits.BanMembers], guildOnly: true });
+  });
+
+  test('requireRoles accepts a role by name or ID', async () => {
+    const { harness, guild, channel, alice, bob } = context;
+    const moderator = harness.createRole(guild, { name: 'Moderator' });
+    harness.createMember(guild, bob, { roles: [moderator] });
+
+    assert.equal(await requireRoles(['Moderator'])(harness.createChatInputInteraction('warn', { user: bob, channel })), true);
+    assert.equal(await requireRoles([moderator.id])(harness.createChatInputInteraction('warn', { user: bob, channel })), true);
+    assert.equal(await requireRoles(['Moderator'])(harness.createChatInputInteraction('warn', { user: alice, channel })), 'You do not have the required role to use this command.');
+  });
+
+  test('nsfwOnly only allows age-restricted channels', async () => {
+    const { harness, guild, channel, alice } = context;
+    const restricted = harness.createTextChannel(guild, { name: 'restricted', nsfw: true });
+
+    assert.equal(await nsfwOnly()(harness.createChatInputInteraction('nsfw', { user: alice, channel: restricted })), true);
+    assert.equal(await nsfwOnly()(harness.createChatInputInteraction('nsfw', { user: alice, channel })), 'This command can only be used in age-restricted channels.');
+  });
+
+  test('cooldown counts down per user until it expires', async () => {
+    const { harness, channel, alice, bob } = context;
+    const guard = cooldown({ duration: 5000, manager: new CooldownManager() });
+
+    assert.equal(await guard(harness.createChatInputInteraction('daily', { user: alice, channel })), true);
+    assert.equal(await guard(harness.createChatInputInteraction('daily', { user: alice, channel })), 'You can use this command again in 5 seconds.');
+    assert.equal(await guard(harness.createChatInputInteraction('daily', { user: bob, channel })), true);
+
+    await advance(context, 4000);
+    assert.equal(await guard(harness.createChatInputInteraction('daily', { user: alice, channel })), 'You can use this command again in 1 second.');
+
+    await advance(context, 1000);
+    assert.equal(await guard(harness.createChatInputInteraction('daily', { user: alice, channel })), true);
+  });
+});
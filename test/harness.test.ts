@@ -0,0 +1,121 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
+import { awaitUserInput, interactiveConfirm, sendPaginatedMessage, waitButton } from '../src';
+import { advance, findCustomId, lastSent, setup, teardown, TestSetup } from './helpers';
+
+let context: TestSetup;
+
+beforeEach(() => {
+  context = setup();
+});
+
+afterEach(async () => {
+  await teardown(context);
+});
+
+describe('sendPaginatedMessage', () => {
+  test('turns pages for the allowed user and removes the buttons on timeout', async () => {
+    const { harness, channel, alice } = context;
+    const done = sendPaginatedMessage(channel, ['Page 1', 'Page 2'], { userId: alice.id });
+    await harness.flush();
+
+    const message = lastSent(context, channel);
+    assert.equal(message.content, 'Page 1');
+
+    await harness.clickButton(message, alice, findCustomId(message, ':next'));
+    assert.equal(harness.rest.messages.get(message.id)?.content, 'Page 2');
+
+    await advance(context, 60000);
+    await done;
+    assert.deepEqual(harness.rest.messages.get(message.id)?.components, []);
+  });
+
+  test('answers other users without turning the page', async () => {
+    const { harness, channel, alice, bob } = context;
+    sendPaginatedMessage(channel, ['Page 1', 'Page 2'], { userId: alice.id });
+    await harness.flush();
+
+    const message = lastSent(context, channel);
+    await harness.clickButton(message, bob, findCustomId(message, ':next'));
+
+    assert.equal(harness.rest.messages.get(message.id)?.content, 'Page 1');
+    assert.equal(harness.rest.filter('reply').at(-1)?.message?.content, 'You are not authorized to interact with these controls.');
+  });
+});
+
+describe('interactiveConfirm', () => {
+  test('resolves true when the user confirms, and removes the buttons', async () => {
+    const { harness, channel, alice } = context;
+    const confirmed = interactiveConfirm(alice, { channel, content: 'Delete everything?' });
+    await harness.flush();
+
+    const message = lastSent(context, channel);
+    assert.equal(message.content, 'Delete everything?');
+
+    await harness.clickButton(message, alice, 'confirm');
+    assert.equal(await confirmed, true);
+    assert.deepEqual(harness.rest.messages.get(message.id)?.components, []);
+  });
+
+  test('ignores other users and resolves false on timeout', async () => {
+    const { harness, channel, alice, bob } = context;
+    const confirmed = interactiveConfirm(alice, { channel, content: 'Delete everything?' });
+    await harness.flush();
+
+    await harness.clickButton(lastSent(context, channel), bob, 'confirm');
+    await advance(context, 60000);
+
+    assert.equal(await confirmed, false);
+  });
+});
+
+describe('awaitUserInput', () => {
+  test('collects the next message of the user that passes the filter', async () => {
+    const { harness, channel, alice, bob } = context;
+    const answer = awaitUserInput(channel, alice, message => message.content !== 'skip');
+
+    await harness.sendMessage(channel, bob, 'red');
+    await harness.sendMessage(channel, alice, 'skip');
+    await harness.sendMessage(channel, alice, 'blue');
+
+    assert.equal((await answer)?.content, 'blue');
+  });
+
+  test('resolves null on timeout', async () => {
+    const answer = awaitUserInput(context.channel, context.alice, undefined, 1000);
+    await advance(context, 1000);
+
+    assert.equal(await answer, null);
+  });
+});
+
+describe('waitButton', () => {
+  test('resolves with the button the user clicked', async () => {
+    const { harness, channel, alice, bob } = context;
+    const message = await channel.send({
+      content: 'Pick one',
+      components: [
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          new ButtonBuilder().setCustomId('a').setLabel('A').setStyle(ButtonStyle.Primary),
+          new ButtonBuilder().setCustomId('b').setLabel('B').setStyle(ButtonStyle.Primary)
+        )
+      ]
+    });
+    const clicked = waitButton(alice, message);
+
+    await harness.clickButton(message, bob, 'a');
+    await harness.clickButton(message, alice, 'b');
+
+    assert.equal((await clicked)?.customId, 'b');
+  });
+
+  test('resolves null on timeout', async () => {
+    const message = await context.channel.send('Pick one');
+    const clicked = waitButton(context.alice, message, 1000);
+    await advance(context, 1000);
+
+    assert.equal(await clicked, null);
+  });
+});
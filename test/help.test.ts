@@ -0,0 +1,129 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { PermissionFlagsBits } from 'discord.js';
+import {
+  buildHelpEmbeds,
+  CommandRegistry,
+  defineCommand,
+  formatCommandUsage,
+  guildOnly,
+  option,
+  ownerOnly,
+  requirePermissions,
+  sendHelp
+} from '../src';
+import { lastSent, setup, teardown, TestSetup } from './helpers';
+
+let context: TestSetup;
+
+beforeEach(() => {
+  context = setup();
+});
+
+afterEach(async () => {
+  await teardown(context);
+});
+
+const execute = () => {};
+
+const ban = defineCommand({
+  name: 'ban',
+  description: 'Bans a member',
+  category: 'Moderation',
+  guards: [requirePermissions([PermissionFlagsBits.BanMembers])],
+  options: {
+    reason: option.string({ description: 'Why' }),
+    target: option.user({ description: 'Who to ban', required: true })
+  },
+  execute
+});
+
+function createRegistry(ownerId: string): CommandRegistry {
+  return new CommandRegistry().register(
+    defineCommand({ name: 'ping', description: 'Pong', execute }),
+    defineCommand({ name: 'kick', description: 'Kicks a member', category: 'Moderation', guards: [guildOnly()], execute }),
+    ban,
+    defineCommand({
+      name: 'purge',
+      description: 'Deletes messages',
+      category: 'Moderation',
+      defaultMemberPermissions: PermissionFlagsBits.ManageMessages,
+      execute
+    }),
+    defineCommand({ name: 'eval', description: 'Evaluates code', category: 'Owner', guards: [ownerOnly([ownerId])], execute }),
+    defineCommand({ name: 'secret', description: 'Hidden', hidden: true, execute })
+  );
+}
+
+/**
+ * The titles of the pages and the commands listed on them
+ */
+function describePages(pages: ReturnType<typeof buildHelpEmbeds>): Array<[string, string[]]> {
+  return pages.map(page => [page.data.title ?? '', (page.data.fields ?? []).map(field => field.name)]);
+}
+
+describe('buildHelpEmbeds', () => {
+  test('groups the commands a member can use by category', () => {
+    const { guild, alice, bob } = context;
+    const registry = createRegistry(bob.id);
+
+    assert.deepEqual(describePages(buildHelpEmbeds(registry, guild.members.cache.get(alice.id)!)), [
+      ['Help: General', ['/ping']],
+      ['Help: Moderation', ['/kick']]
+    ]);
+  });
+
+  test('lists permission-gated, owner-only and hidden commands for those allowed to use them', () => {
+    const { harness, guild, bob } = context;
+    const moderator = harness.createRole(guild, {
+      name: 'Moderator',
+      permissions: [PermissionFlagsBits.BanMembers, PermissionFlagsBits.ManageMessages]
+    });
+    const member = harness.createMember(guild, bob, { roles: [moderator] });
+
+    assert.deepEqual(describePages(buildHelpEmbeds(createRegistry(bob.id), member, { ownerIds: [bob.id], perPage: 2 })), [
+      ['Help: General', ['/ping', '/secret']],
+      ['Help: Moderation', ['/kick', '/ban <target> [reason]']],
+      ['Help: Moderation', ['/purge']],
+      ['Help: Owner', ['/eval']]
+    ]);
+  });
+
+  test('leaves out commands guarded to guilds in direct messages', () => {
+    const { alice } = context;
+
+    assert.deepEqual(describePages(buildHelpEmbeds(createRegistry(alice.id), alice)), [
+      ['Help: General', ['/ping']],
+      ['Help: Moderation', ['/purge']],
+      ['Help: Owner', ['/eval']]
+    ]);
+  });
+
+  test('says when there is nothing to list', () => {
+    const { alice } = context;
+    const [page] = buildHelpEmbeds(new CommandRegistry(), alice);
+
+    assert.equal(page.data.description, 'There are no commands you can use here.');
+  });
+});
+
+describe('sendHelp', () => {
+  test('shows the details of a command the viewer can use', async () => {
+    const { harness, guild, channel, alice } = context;
+    const registry = createRegistry(alice.id);
+
+    await sendHelp(channel, registry, alice, { command: '/eval' });
+    assert.equal(lastSent(context, channel).embeds[0].title, '/eval');
+
+    await sendHelp(channel, registry, guild.members.cache.get(alice.id)!, { command: 'ban' });
+    assert.equal(lastSent(context, channel).embeds[0].description, 'There is no command named `ban`.');
+    assert.equal(harness.rest.filter('send').length, 2);
+  });
+});
+
+describe('formatCommandUsage', () => {
+  test('lists required options before optional ones', () => {
+    assert.equal(formatCommandUsage(ban), '/ban <target> [reason]');
+  });
+});
@@ -0,0 +1,77 @@
+import { mock } from 'node:test';
+import { APIActionRowComponent, APIComponentInMessageActionRow, APIMessage, DMChannel, Guild, TextChannel, User } from 'discord.js';
+import { TestHarness } from '../src/testing';
+
+/**
+ * A harness with a guild, a text channel and two members, on fake timers
+ */
+export interface TestSetup {
+  harness: TestHarness;
+  guild: Guild;
+  channel: TextChannel;
+  alice: User;
+  bob: User;
+}
+
+/**
+ * Creates a harness; the test file has to import `./timers` first, and call {@link teardown} after the test
+ */
+export function setup(): TestSetup {
+  const harness = new TestHarness();
+  const guild = harness.createGuild();
+  const channel = harness.createTextChannel(guild);
+  const alice = harness.createUser({ username: 'alice' });
+  const bob = harness.createUser({ username: 'bob' });
+
+  harness.createMember(guild, alice);
+  harness.createMember(guild, bob);
+
+  return { harness, guild, channel, alice, bob };
+}
+
+/**
+ * Runs the timers the test left behind, so they do not fire during the next one, and destroys the harness
+ */
+export async function teardown({ harness }: TestSetup): Promise<void> {
+  mock.timers.runAll();
+  await harness.flush();
+  await harness.destroy();
+}
+
+/**
+ * Advances the fake clock and lets the timers' callbacks settle
+ */
+export async function advance({ harness }: TestSetup, ms: number): Promise<void> {
+  mock.timers.tick(ms);
+  await harness.flush();
+}
+
+/**
+ * Finds the custom ID of the component whose custom ID ends with a suffix, e.g. ':next'
+ */
+export function findCustomId(message: APIMessage | null | undefined, suffix: string): string {
+  const rows = (message?.components ?? []) as APIActionRowComponent<APIComponentInMessageActionRow>[];
+
+  for (const row of rows) {
+    for (const component of row.components) {
+      if ('custom_id' in component && component.custom_id.endsWith(suffix)) {
+        return component.custom_id;
+      }
+    }
+  }
+
+  throw new Error(`No component with a custom ID ending with "${suffix}"`);
+}
+
+/**
+ * The last message a channel or DM channel received from the bot, as recorded by the REST mock
+ */
+export function lastSent({ harness }: TestSetup, channel: TextChannel | DMChannel): APIMessage {
+  const message = harness.rest.filter('send').reverse().find(request => request.message?.channel_id === channel.id)?.message;
+
+  if (!message) {
+    throw new Error(`Nothing was sent to channel ${channel.id}`);
+  }
+
+  return message;
+}
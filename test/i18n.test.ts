@@ -0,0 +1,46 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { formatMessage, Translator } from '../src';
+
+describe('formatMessage', () => {
+  test('fills in arguments and leaves unknown ones as they are', () => {
+    assert.equal(formatMessage('Hello {name}, {missing}!', { name: 'Alice' }), 'Hello Alice, {missing}!');
+  });
+
+  test('picks plural forms by exact value and by the plural rules of the locale', () => {
+    const pattern = '{count, plural, =0 {No warnings} one {# warning} few {# varování} other {# warnings}}';
+
+    assert.equal(formatMessage(pattern, { count: 0 }), 'No warnings');
+    assert.equal(formatMessage(pattern, { count: 1 }), '1 warning');
+    assert.equal(formatMessage(pattern, { count: 3 }), '3 warnings');
+    assert.equal(formatMessage(pattern, { count: 3 }, 'cs'), '3 varování');
+  });
+
+  test('picks select branches, falling back to other, with nested arguments', () => {
+    const pattern = '{scope, select, global {everywhere} other {per {scope}}}';
+
+    assert.equal(formatMessage(pattern, { scope: 'global' }), 'everywhere');
+    assert.equal(formatMessage(pattern, { scope: 'guild' }), 'per guild');
+  });
+});
+
+describe('Translator', () => {
+  const translator = new Translator({ fallbacks: { 'pt-BR': ['es'] } })
+    .addMessages('en-US', { greeting: 'Hello {name}!', farewell: 'Bye!', thanks: 'Thanks!' })
+    .addMessages('pt', { greeting: 'Olá {name}!' })
+    .addMessages('es', { greeting: '¡Hola {name}!', farewell: '¡Adiós!' })
+    .addMessages('de', { greeting: 'Hallo {name}!' });
+
+  test('falls back from a regional locale to its language, its fallbacks and the default locale', () => {
+    assert.equal(translator.translate('greeting', { name: 'Ana' }, 'pt-BR'), 'Olá Ana!');
+    assert.equal(translator.translate('farewell', {}, 'pt-BR'), '¡Adiós!');
+    assert.equal(translator.translate('thanks', {}, 'pt-BR'), 'Thanks!');
+    assert.equal(translator.translate('unknown', {}, 'pt-BR'), 'unknown');
+  });
+
+  test("prefers the user's locale, then the guild's", () => {
+    assert.equal(translator.translate('greeting', { name: 'Max' }, { locale: 'de', guildLocale: 'es-ES' }), 'Hallo Max!');
+    assert.equal(translator.translate('greeting', { name: 'Max' }, { locale: 'fr', guildLocale: 'es-ES' }), '¡Hola Max!');
+    assert.deepEqual(translator.resolveLocales({ locale: 'pt-BR', guildLocale: 'de' }), ['pt-BR', 'pt', 'es', 'de', 'en-US', 'en']);
+  });
+});
@@ -0,0 +1,50 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { LockManager } from '../src';
+
+const invoker = { userId: '123456789012345678' };
+
+function failingOnQueued(): Promise<never> {
+  return Promise.reject(new Error('Unknown interaction'));
+}
+
+describe('LockManager', () => {
+  test('removes a queued run whose onQueued callback throws', async () => {
+    const locks = new LockManager().configure('sync', { policy: 'queue' });
+    const first = await locks.acquire(invoker, 'sync');
+
+    await assert.rejects(locks.acquire(invoker, 'sync', { onQueued: failingOnQueued }), /Unknown interaction/);
+
+    first!.release();
+    assert.equal(locks.isLocked(invoker, 'sync'), false);
+  });
+
+  test('releases the lock when it was handed over while onQueued was running', async () => {
+    const locks = new LockManager().configure('sync', { policy: 'queue' });
+    const first = await locks.acquire(invoker, 'sync');
+
+    const second = locks.acquire(invoker, 'sync', {
+      onQueued: () => {
+        first!.release();
+        return failingOnQueued();
+      }
+    });
+
+    await assert.rejects(second, /Unknown interaction/);
+    assert.equal(locks.isLocked(invoker, 'sync'), false);
+  });
+
+  test('hands the lock to the next queued run', async () => {
+    const locks = new LockManager().configure('sync', { policy: 'queue' });
+    const first = await locks.acquire(invoker, 'sync');
+    const second = locks.acquire(invoker, 'sync');
+
+    first!.release();
+    const lock = await second;
+
+    assert.equal(locks.isLocked(invoker, 'sync'), true);
+    lock!.release();
+    assert.equal(locks.isLocked(invoker, 'sync'), false);
+  });
+});
@@ -0,0 +1,58 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { splitLongMessage } from '../src';
+
+describe('splitLongMessage', () => {
+  test('closes and reopens a code block that spans several chunks', () => {
+    const code = Array.from({ length: 40 }, (_, i) => `const value${i} = ${i};`).join('\n');
+    const chunks = splitLongMessage(`Result:\n\`\`\`js\n${code}\n\`\`\``, 200);
+
+    assert.ok(chunks.length > 1);
+    for (const chunk of chunks) {
+      assert.ok(chunk.length <= 200);
+      assert.equal(chunk.match(/```/g)?.length, 2);
+    }
+    assert.ok(chunks.slice(1).every(chunk => chunk.startsWith('```js\n')));
+  });
+
+  test('keeps mentions and links whole', () => {
+    const text = Array.from({ length: 100 }, (_, i) => `<@${100000000000000000n + BigInt(i)}> https://example.com/${i}`).join(' ');
+    const chunks = splitLongMessage(text, 150);
+
+    assert.deepEqual(chunks.join(' ').split(/\s+/), text.split(/\s+/));
+  });
+
+  test('closes and reopens italics that span several chunks', () => {
+    const words = Array.from({ length: 60 }, (_, i) => `word${i}`).join(' ');
+
+    for (const marker of ['*', '_']) {
+      const chunks = splitLongMessage(`Note: ${marker}${words}${marker} done`, 100);
+
+      assert.ok(chunks.length > 1);
+      for (const chunk of chunks) {
+        assert.ok(chunk.length <= 100);
+        assert.equal(chunk.split(marker).length % 2, 1, chunk);
+      }
+      assert.ok(chunks.slice(1, -1).every(chunk => chunk.startsWith(marker) && chunk.endsWith(marker)));
+    }
+  });
+
+  test('leaves underscores inside words and links alone', () => {
+    const text = Array.from({ length: 40 }, (_, i) => `snake_case_${i} https://example.com/a_${i}_b 2 * ${i}`).join(' ');
+    const chunks = splitLongMessage(text, 150);
+
+    assert.deepEqual(chunks.join(' ').split(/\s+/), text.split(/\s+/));
+  });
+
+  test('splits large fenced and formatted input', () => {
+    const line = '**a** `b` <@123456789012345678> __c__ ~~d~~ ||e|| *f* _g_ https://x.io/y <#123456789012345678> **h**';
+    const block = `\`\`\`ts\n${Array.from({ length: 50 }, () => line).join('\n')}\n\`\`\``;
+    const text = Array.from({ length: 120 }, (_, i) => `**Section ${i}** ||spoiler|| ~~old~~\n\n${block}`).join('\n\n');
+    assert.ok(text.length > 500_000);
+
+    const chunks = splitLongMessage(text);
+
+    assert.ok(chunks.every(chunk => chunk.length <= 2000));
+    assert.ok(chunks.every(chunk => chunk.match(/```/g)?.length === 2));
+  });
+});
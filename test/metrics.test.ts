@@ -0,0 +1,124 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { CommandRegistry, defineCommand, MetricsCollector, onCommandError, setMetricsCollector } from '../src';
+import { setup, teardown, TestSetup } from './helpers';
+
+describe('MetricsCollector', () => {
+  test('counts latencies into cumulative buckets', () => {
+    const metrics = new MetricsCollector({ buckets: [100, 10] });
+
+    metrics.recordInvocation('ping');
+    metrics.recordLatency('ping', 5);
+    metrics.recordLatency('ping', 50);
+    metrics.recordLatency('ping', 500);
+
+    assert.deepEqual(metrics.snapshot().commands.ping, {
+      invocations: 1,
+      errors: 0,
+      cooldownRejections: 0,
+      latency: { buckets: [{ le: 10, count: 1 }, { le: 100, count: 2 }], sum: 555, count: 3 }
+    });
+  });
+
+  test('returns snapshots that later recordings do not change', () => {
+    const metrics = new MetricsCollector();
+    metrics.recordLatency('ping', 1);
+    metrics.recordPaginatorTimeout('Paginator');
+
+    const snapshot = metrics.snapshot();
+    metrics.recordLatency('ping', 1);
+    metrics.recordPaginatorTimeout('Paginator');
+
+    assert.equal(snapshot.commands.ping.latency.count, 1);
+    assert.equal(snapshot.commands.ping.latency.buckets[0].count, 1);
+    assert.deepEqual(snapshot.paginatorTimeouts, { Paginator: 1 });
+
+    metrics.reset();
+    assert.deepEqual(metrics.snapshot(), { commands: {}, paginatorTimeouts: {} });
+  });
+
+  test('formats the metrics for Prometheus', () => {
+    const metrics = new MetricsCollector({ buckets: [100, 1000] });
+
+    metrics.recordInvocation('ping');
+    metrics.recordError('ping');
+    metrics.recordCooldownRejection('say "hi"');
+    metrics.recordLatency('ping', 250);
+    metrics.recordPaginatorTimeout('ButtonPaginator');
+
+    assert.equal(metrics.toPrometheus({ prefix: 'bot' }), [
+      '# HELP bot_command_invocations_total Number of times a command handler ran.',
+      '# TYPE bot_command_invocations_total counter',
+      'bot_command_invocations_total{command="ping"} 1',
+      'bot_command_invocations_total{command="say \\"hi\\""} 0',
+      '# HELP bot_command_errors_total Number of times a command handler threw.',
+      '# TYPE bot_command_errors_total counter',
+      'bot_command_errors_total{command="ping"} 1',
+      'bot_command_errors_total{command="say \\"hi\\""} 0',
+      '# HELP bot_command_cooldown_rejections_total Number of command uses rejected by a cooldown.',
+      '# TYPE bot_command_cooldown_rejections_total counter',
+      'bot_command_cooldown_rejections_total{command="ping"} 0',
+      'bot_command_cooldown_rejections_total{command="say \\"hi\\""} 1',
+      '# HELP bot_command_duration_seconds Time taken by command handlers.',
+      '# TYPE bot_command_duration_seconds histogram',
+      'bot_command_duration_seconds_bucket{command="ping",le="0.1"} 0',
+      'bot_command_duration_seconds_bucket{command="ping",le="1"} 1',
+      'bot_command_duration_seconds_bucket{command="ping",le="+Inf"} 1',
+      'bot_command_duration_seconds_sum{command="ping"} 0.25',
+      'bot_command_duration_seconds_count{command="ping"} 1',
+      'bot_command_duration_seconds_bucket{command="say \\"hi\\"",le="0.1"} 0',
+      'bot_command_duration_seconds_bucket{command="say \\"hi\\"",le="1"} 0',
+      'bot_command_duration_seconds_bucket{command="say \\"hi\\"",le="+Inf"} 0',
+      'bot_command_duration_seconds_sum{command="say \\"hi\\""} 0',
+      'bot_command_duration_seconds_count{command="say \\"hi\\""} 0',
+      '# HELP bot_paginator_timeouts_total Number of paginators that stopped after their timeout.',
+      '# TYPE bot_paginator_timeouts_total counter',
+      'bot_paginator_timeouts_total{paginator="ButtonPaginator"} 1',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('CommandRegistry metrics', () => {
+  let context: TestSetup;
+
+  beforeEach(() => {
+    context = setup();
+  });
+
+  afterEach(async () => {
+    setMetricsCollector(null);
+    await teardown(context);
+  });
+
+  test('records the runs and failures of dispatched commands', async () => {
+    const { harness, channel, alice } = context;
+    const metrics = new MetricsCollector();
+    const unsubscribe = onCommandError(() => {});
+
+    const registry = new CommandRegistry().register(
+      defineCommand({ name: 'ping', description: 'Pong', execute: () => {} }),
+      defineCommand({ name: 'fail', description: 'Fails', execute: () => {
+        throw new Error('Broken');
+      } })
+    );
+
+    try {
+      await registry.dispatch(harness.createChatInputInteraction('ping', { user: alice, channel }));
+
+      setMetricsCollector(metrics);
+      await registry.dispatch(harness.createChatInputInteraction('ping', { user: alice, channel }));
+      await registry.dispatch(harness.createChatInputInteraction('fail', { user: alice, channel }));
+    } finally {
+      unsubscribe();
+    }
+
+    const { commands } = metrics.snapshot();
+    assert.equal(commands.ping.invocations, 1);
+    assert.equal(commands.ping.errors, 0);
+    assert.equal(commands.ping.latency.count, 1);
+    assert.equal(commands.fail.invocations, 1);
+    assert.equal(commands.fail.errors, 1);
+  });
+});
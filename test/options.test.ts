@@ -0,0 +1,35 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import { GuildMember } from 'discord.js';
+import { option, parseOptions } from '../src';
+import { setup, teardown, TestSetup } from './helpers';
+
+let context: TestSetup;
+
+beforeEach(() => {
+  context = setup();
+});
+
+afterEach(async () => {
+  await teardown(context);
+});
+
+describe('parseOptions', () => {
+  test('resolves member options of a cached guild as guild members', () => {
+    const { harness, guild, channel, alice, bob } = context;
+    const interaction = harness.createChatInputInteraction('ban', { user: alice, channel }, {
+      target: guild.members.cache.get(bob.id)!
+    });
+
+    const result = parseOptions(interaction, { target: option.member({ description: 'Who to ban', required: true }) });
+    assert.ok(result.success);
+
+    const { target } = result.args;
+    // @ts-expect-error A member of a guild that is not cached is only API data
+    const member: GuildMember = target;
+
+    assert.ok(member instanceof GuildMember);
+    assert.equal(member.id, bob.id);
+  });
+});
@@ -0,0 +1,88 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import { PaginatorRegistry, StatelessPageSource } from '../src';
+import { findCustomId, lastSent, setup, teardown, TestSetup } from './helpers';
+
+let context: TestSetup;
+
+beforeEach(() => {
+  context = setup();
+});
+
+afterEach(async () => {
+  await teardown(context);
+});
+
+describe('PaginatorRegistry', () => {
+  test('renders the requested page from the custom ID alone', async () => {
+    const { harness, channel, alice, bob } = context;
+    const search: StatelessPageSource = {
+      render: (key, index) => ({ content: `${key} ${index + 1}` }),
+      total: () => 3
+    };
+
+    await new PaginatorRegistry().register('search', search).send(channel, 'search', 'cats', { userId: alice.id });
+    const message = lastSent(context, channel);
+    const next = findCustomId(message, `:next:0:${alice.id}:cats`);
+    assert.match(message.content, /^cats 1/);
+
+    // A registry created after a restart knows nothing but the page source
+    const restarted = new PaginatorRegistry().register('search', search);
+    harness.client.on('interactionCreate', interaction => restarted.handle(interaction));
+
+    await harness.clickButton(message, alice, next);
+    const turned = harness.rest.filter('editReply').at(-1)?.message;
+    assert.match(turned?.content ?? '', /^cats 2/);
+    assert.doesNotThrow(() => findCustomId(turned, `:next:1:${alice.id}:cats`));
+
+    const edits = harness.rest.filter('editReply').length;
+    await harness.clickButton(message, bob, next);
+    assert.equal(harness.rest.filter('reply').at(-1)?.message?.content, 'You are not authorized to interact with these controls.');
+    assert.equal(harness.rest.filter('editReply').length, edits);
+  });
+
+  test('leaves controls of unknown page sources to other handlers', async () => {
+    const { harness, channel, alice } = context;
+    const registry = new PaginatorRegistry();
+    const message = harness.createMessage(channel, alice, 'Old paginator');
+    let handled: boolean | undefined;
+    harness.client.on('interactionCreate', async interaction => {
+      handled = await registry.handle(interaction);
+    });
+
+    await harness.clickButton(message, alice, 'pgs:removed:next:0::cats');
+
+    assert.equal(handled, false);
+  });
+
+  test('tells the user the page is unavailable when the page source fails', async () => {
+    const { harness, channel, alice } = context;
+    const logged = mock.method(console, 'error', () => {});
+    let available = true;
+
+    const registry = new PaginatorRegistry().register('search', {
+      render: (key, index) => ({ content: `${key} ${index + 1}` }),
+      total: () => {
+        if (!available) {
+          throw new Error('Search expired');
+        }
+        return 2;
+      }
+    });
+    harness.client.on('interactionCreate', interaction => registry.handle(interaction));
+
+    try {
+      await registry.send(channel, 'search', 'cats');
+      const message = lastSent(context, channel);
+
+      available = false;
+      await harness.clickButton(message, alice, 'pgs:search:next:0::cats');
+    } finally {
+      logged.mock.restore();
+    }
+
+    assert.equal(logged.mock.callCount(), 1);
+    assert.equal(harness.rest.filter('reply').at(-1)?.message?.content, 'This page is no longer available.');
+  });
+});
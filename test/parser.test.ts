@@ -0,0 +1,83 @@
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { i18n, parseCommandMessage } from '../src';
+import { TestHarness } from '../src/testing';
+
+const options = {
+  prefixes: ['!'],
+  args: { target: { type: 'user', required: true }, reason: { type: 'rest' } },
+  flags: { days: { type: 'integer', short: 'd' } }
+} satisfies Parameters<typeof parseCommandMessage>[1];
+
+i18n.addMessages('de', {
+  'parser.missingArgument': 'Das Argument "{name}" fehlt.',
+  'parser.invalidMention': '"{value}" ist {type, select, user {kein gültiger Benutzer} other {ungültig}} für "{name}".'
+});
+
+function errorOf(input: string, locale?: string): string | undefined {
+  const parsed = parseCommandMessage(input, { ...options, locale });
+  return parsed && !parsed.success ? parsed.error : undefined;
+}
+
+describe('parseCommandMessage', () => {
+  test('parses arguments, flags and the rest of the line', () => {
+    const parsed = parseCommandMessage('!ban <@123456789012345678> -d 7 "spamming" links', options);
+
+    assert.deepEqual(parsed, {
+      success: true,
+      command: 'ban',
+      args: { target: '123456789012345678', reason: '"spamming" links' },
+      flags: { days: 7 }
+    });
+  });
+
+  test('puts everything after -- into the rest argument', () => {
+    const parsed = parseCommandMessage('!note --tag x -- --literal text', {
+      prefixes: ['!'],
+      args: { text: { type: 'rest' } },
+      flags: { tag: { type: 'string' } }
+    });
+
+    assert.deepEqual(parsed, { success: true, command: 'note', args: { text: '--literal text' }, flags: { tag: 'x' } });
+  });
+
+  test('fills positional arguments after -- before the rest argument', () => {
+    const parsed = parseCommandMessage('!ban -d 1 -- <@123456789012345678> -d means days', options);
+
+    assert.deepEqual(parsed, {
+      success: true,
+      command: 'ban',
+      args: { target: '123456789012345678', reason: '-d means days' },
+      flags: { days: 1 }
+    });
+  });
+
+  test('describes invalid input in English by default', () => {
+    assert.equal(errorOf('!ban'), 'Missing required argument "target".');
+    assert.equal(errorOf('!ban someone'), '"someone" is not a valid user for "target".');
+    assert.equal(errorOf('!ban <@123456789012345678> --days 1.5'), '"1.5" is not a valid whole number for "--days".');
+    assert.equal(errorOf('!ban <@123456789012345678> --weeks 1'), 'Unknown flag "--weeks".');
+    assert.equal(errorOf('!ban <@123456789012345678> -d'), 'Flag "--days" expects a value.');
+    assert.equal(errorOf('!ban "<@123456789012345678>'), 'Unterminated quote in command arguments.');
+  });
+
+  test('translates errors into the requested locale', () => {
+    assert.equal(errorOf('!ban', 'de'), 'Das Argument "target" fehlt.');
+    assert.equal(errorOf('!ban someone', 'de'), '"someone" ist kein gültiger Benutzer für "target".');
+    assert.equal(errorOf('!ban <@123456789012345678> --weeks 1', 'de'), 'Unknown flag "--weeks".');
+  });
+
+  test("translates the errors of a message into its guild's locale", async () => {
+    const harness = new TestHarness();
+    const guild = harness.createGuild({ preferredLocale: 'de' });
+    const message = harness.createMessage(harness.createTextChannel(guild), harness.createUser(), '!ban');
+
+    try {
+      const parsed = parseCommandMessage(message, options);
+      assert.equal(parsed && !parsed.success && parsed.error, 'Das Argument "target" fehlt.');
+      assert.equal(errorOf('!ban'), 'Missing required argument "target".');
+    } finally {
+      await harness.destroy();
+    }
+  });
+});
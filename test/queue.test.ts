@@ -0,0 +1,158 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { describe, mock, test } from 'node:test';
+import { DiscordAPIError, REST, RESTEvents } from 'discord.js';
+import { SendCancelledError, SendQueue } from '../src';
+
+/**
+ * Lets the queue's promise chains run
+ */
+async function settle(): Promise<void> {
+  for (let i = 0; i < 20; i++) {
+    await Promise.resolve();
+  }
+}
+
+/**
+ * A task that only finishes when told to
+ */
+function blocker(): { task: () => Promise<void>; finish: () => void } {
+  let finish = () => {};
+  const finished = new Promise<void>(resolve => {
+    finish = resolve;
+  });
+
+  return { task: () => finished, finish };
+}
+
+describe('SendQueue', () => {
+  test('sends the messages of a channel one at a time, in order', async () => {
+    const queue = new SendQueue();
+    const first = blocker();
+    const started: string[] = [];
+
+    const sends = [
+      queue.enqueue('1', async () => { started.push('first'); await first.task(); }),
+      queue.enqueue('1', async () => { started.push('second'); }),
+      queue.enqueue('2', async () => { started.push('other channel'); })
+    ];
+    await settle();
+
+    assert.deepEqual(started, ['first', 'other channel']);
+    assert.equal(queue.pending('1'), 1);
+
+    first.finish();
+    await Promise.all(sends);
+    assert.deepEqual(started, ['first', 'other channel', 'second']);
+  });
+
+  test('sends higher priorities first and keeps the order within a priority', async () => {
+    const queue = new SendQueue();
+    const first = blocker();
+    const sent: string[] = [];
+    const send = (name: string) => async () => { sent.push(name); };
+
+    const sends = [
+      queue.enqueue('1', first.task),
+      queue.enqueue('1', send('low'), { priority: 'low' }),
+      queue.enqueue('1', send('normal 1')),
+      queue.enqueue('1', send('high'), { priority: 'high' }),
+      queue.enqueue('1', send('normal 2'))
+    ];
+
+    first.finish();
+    await Promise.all(sends);
+    assert.deepEqual(sent, ['high', 'normal 1', 'normal 2', 'low']);
+  });
+
+  test('cancels waiting sends on clear and abort', async () => {
+    const queue = new SendQueue();
+    const first = blocker();
+    const controller = new AbortController();
+
+    const running = queue.enqueue('1', first.task);
+    const aborted = queue.enqueue('1', async () => 'aborted', { signal: controller.signal });
+    const cleared = queue.enqueue('1', async () => 'cleared');
+
+    controller.abort();
+    await assert.rejects(aborted, SendCancelledError);
+
+    queue.clear('1');
+    await assert.rejects(cleared, SendCancelledError);
+    assert.equal(queue.pending('1'), 0);
+
+    first.finish();
+    await running;
+  });
+
+  test('holds the sends of a paused channel', async () => {
+    const queue = new SendQueue();
+    let sent = false;
+
+    queue.pause('1', 5000);
+    const send = queue.enqueue('1', async () => { sent = true; });
+
+    mock.timers.tick(4999);
+    await settle();
+    assert.equal(sent, false);
+
+    mock.timers.tick(1);
+    await send;
+    assert.equal(sent, true);
+  });
+
+  test('retries a rate-limited send after the time Discord asks for', async () => {
+    const queue = new SendQueue();
+    let attempts = 0;
+
+    const send = queue.enqueue('1', async () => {
+      if (++attempts === 1) {
+        throw new DiscordAPIError({ message: 'You are being rate limited.', code: 0, retry_after: 2 } as never, 0, 429, 'POST', '/channels/1/messages', {});
+      }
+      return 'sent';
+    });
+    const later = queue.enqueue('1', async () => attempts);
+
+    await settle();
+    assert.equal(attempts, 1);
+
+    mock.timers.tick(2000);
+    assert.equal(await send, 'sent');
+    assert.equal(await later, 2);
+  });
+
+  test('rejects a send that is still rate limited after its retries', async () => {
+    const queue = new SendQueue({ maxRetries: 1 });
+    const error = new DiscordAPIError({ message: 'You are being rate limited.', code: 0, retry_after: 1 } as never, 0, 429, 'POST', '/channels/1/messages', {});
+
+    const send = queue.enqueue('1', async () => {
+      throw error;
+    });
+    await settle();
+    mock.timers.tick(1000);
+
+    await assert.rejects(send, error);
+  });
+
+  test('pauses a channel whose rate limit bucket is empty once attached', async () => {
+    const rest = new REST();
+    const queue = new SendQueue().attach(rest);
+    let sent = false;
+
+    rest.emit(
+      RESTEvents.Response,
+      { method: 'POST', path: '/channels/1/messages' } as never,
+      { headers: new Headers({ 'x-ratelimit-remaining': '0', 'x-ratelimit-reset-after': '3' }) } as never
+    );
+    const send = queue.enqueue('1', async () => { sent = true; });
+    const other = queue.enqueue('2', async () => 'sent');
+
+    assert.equal(await other, 'sent');
+    await settle();
+    assert.equal(sent, false);
+
+    mock.timers.tick(3000);
+    await send;
+    assert.equal(sent, true);
+  });
+});
@@ -0,0 +1,61 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { describe, mock, test } from 'node:test';
+import { RateLimiter, RateLimitResult } from '../src';
+
+describe('RateLimiter', () => {
+  test('rejects a burst that is not a positive integer', () => {
+    const limiter = new RateLimiter();
+
+    for (const burst of [0, -1, 1.5]) {
+      assert.throws(() => limiter.configure('search', { strategy: 'token-bucket', limit: 5, window: 60000, burst }), /burst/);
+    }
+  });
+
+  test('sweeps only the uses that no longer count', () => {
+    const limiter = new RateLimiter({ sweepInterval: 60000 })
+      .configure('search', { strategy: 'sliding-window', limit: 2, window: 5000 })
+      .configure('meme', { strategy: 'token-bucket', limit: 1, window: 15000, burst: 3 });
+    const alice = { userId: '1' };
+    const bob = { userId: '2' };
+
+    limiter.consume(alice, 'search');
+    limiter.consume(alice, 'meme');
+    mock.timers.tick(4000);
+    limiter.consume(bob, 'search');
+    limiter.consume(bob, 'meme');
+    limiter.consume(bob, 'meme');
+
+    mock.timers.tick(1000);
+    limiter.sweep();
+
+    // Alice's search use left the window; Bob's uses still count
+    assert.deepEqual(pick(limiter.peek(alice, 'search')), { remaining: 2, limit: 2 });
+    assert.deepEqual(pick(limiter.peek(bob, 'search')), { remaining: 1, limit: 2 });
+    assert.deepEqual(pick(limiter.peek(bob, 'meme')), { remaining: 1, limit: 3 });
+
+    // A bucket is full again after refilling for as long as it takes to refill every token
+    mock.timers.tick(45000);
+    limiter.sweep();
+    assert.deepEqual(pick(limiter.peek(alice, 'meme')), { remaining: 3, limit: 3 });
+    assert.deepEqual(pick(limiter.peek(bob, 'meme')), { remaining: 3, limit: 3 });
+    limiter.dispose();
+  });
+
+  test('keeps limiting until the window has passed', () => {
+    const limiter = new RateLimiter({ sweepInterval: 1000 })
+      .configure('search', { strategy: 'sliding-window', limit: 1, window: 5000 });
+
+    limiter.consume({ userId: '1' }, 'search');
+    mock.timers.tick(3000);
+    assert.equal(limiter.consume({ userId: '1' }, 'search').limited, true);
+
+    mock.timers.tick(2000);
+    assert.equal(limiter.consume({ userId: '1' }, 'search').limited, false);
+    limiter.dispose();
+  });
+});
+
+function pick({ remaining, limit }: RateLimitResult): { remaining: number; limit: number } {
+  return { remaining, limit };
+}
@@ -0,0 +1,123 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, test } from 'node:test';
+import {
+  CommandErrorEvent,
+  CommandRegistry,
+  CooldownManager,
+  defineCommand,
+  defineUserCommand,
+  MetricsCollector,
+  onCommandError,
+  setMetricsCollector
+} from '../src';
+import { advance, setup, teardown, TestSetup } from './helpers';
+
+let context: TestSetup;
+
+beforeEach(() => {
+  context = setup();
+});
+
+afterEach(async () => {
+  await teardown(context);
+});
+
+describe('CommandRegistry', () => {
+  test('reports a guard that throws like a failing handler', async () => {
+    const { harness, channel, alice } = context;
+    const events: CommandErrorEvent[] = [];
+    const unsubscribe = onCommandError(event => {
+      events.push(event);
+    });
+    let executed = false;
+
+    const registry = new CommandRegistry().register(defineCommand({
+      name: 'ping',
+      description: 'Pong',
+      guards: [() => {
+        throw new Error('Guard failed');
+      }],
+      execute: () => {
+        executed = true;
+      }
+    }));
+
+    try {
+      const interaction = harness.createChatInputInteraction('ping', { user: alice, channel });
+      assert.equal(await registry.dispatch(interaction), true);
+    } finally {
+      unsubscribe();
+    }
+
+    assert.equal(executed, false);
+    assert.equal(events.length, 1);
+    assert.equal((events[0].error as Error).message, 'Guard failed');
+    assert.match(harness.rest.filter('reply').at(-1)?.message?.embeds[0].footer?.text ?? '', new RegExp(events[0].incidentId));
+  });
+
+  test('keeps the cooldowns of commands of different types apart', async () => {
+    const { harness, channel, alice } = context;
+    const cooldowns = new CooldownManager();
+    const metrics = new MetricsCollector();
+    let runs = 0;
+
+    const registry = new CommandRegistry({ cooldowns }).register(
+      defineCommand({ name: 'report', description: 'Reports a user', cooldown: 60000, execute: () => { runs++; } }),
+      defineUserCommand({ name: 'report', cooldown: 60000, execute: () => {} })
+    );
+
+    setMetricsCollector(metrics);
+    try {
+      await registry.dispatch(harness.createChatInputInteraction('report', { user: alice, channel }));
+      await registry.dispatch(harness.createChatInputInteraction('report', { user: alice, channel }));
+    } finally {
+      setMetricsCollector(null);
+    }
+
+    assert.equal(runs, 1);
+    assert.equal(cooldowns.peek(alice.id, 'slash:report').onCooldown, true);
+    assert.equal(cooldowns.peek(alice.id, 'user:report').onCooldown, false);
+    assert.deepEqual(cooldowns.list(alice.id).map(({ command, kind }) => ({ command, kind })), [{ command: 'report', kind: 'slash' }]);
+
+    // Plain names are slash commands, and metrics use the plain name
+    assert.equal(cooldowns.peek(alice.id, 'report').onCooldown, true);
+    assert.deepEqual(Object.keys(metrics.snapshot().commands), ['report']);
+    assert.equal(metrics.snapshot().commands.report.cooldownRejections, 1);
+
+    cooldowns.reset(alice.id, 'report');
+    assert.equal(cooldowns.peek(alice.id, 'slash:report').onCooldown, false);
+    cooldowns.dispose();
+  });
+
+  test('tells the user when a deferred run is cancelled by a newer one', async () => {
+    const { harness, channel, alice } = context;
+    let runs = 0;
+
+    const registry = new CommandRegistry().register(defineCommand({
+      name: 'export',
+      description: 'Exports the channel',
+      autoDefer: true,
+      lock: 'cancel-previous',
+      execute: (_interaction, _args, signal) => {
+        runs++;
+        return new Promise((_resolve, reject) => {
+          signal.addEventListener('abort', () => reject(signal.reason));
+        });
+      }
+    }));
+
+    const first = harness.createChatInputInteraction('export', { user: alice, channel });
+    const cancelled = registry.dispatch(first);
+    await harness.flush();
+    await advance(context, 2500);
+    assert.equal(first.deferred, true);
+
+    registry.dispatch(harness.createChatInputInteraction('export', { user: alice, channel }));
+    await cancelled;
+    await harness.flush();
+
+    assert.equal(runs, 2);
+    assert.equal(harness.rest.filter('editReply').at(-1)?.message?.content, 'This run of the command was cancelled.');
+  });
+});
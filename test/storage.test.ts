@@ -0,0 +1,94 @@
+import './timers';
+import assert from 'node:assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, mock, test } from 'node:test';
+import { JsonFileCooldownStore } from '../src';
+
+let directory: string;
+
+beforeEach(() => {
+  directory = mkdtempSync(join(tmpdir(), 'yebe-'));
+});
+
+afterEach(() => {
+  rmSync(directory, { recursive: true, force: true });
+});
+
+describe('JsonFileCooldownStore', () => {
+  test('creates the parent directory and batches writes', () => {
+    const path = join(directory, 'data', 'cooldowns.json');
+    const store = new JsonFileCooldownStore(path, { saveDelay: 500 });
+
+    store.set('alice:daily', 1, 60000);
+    store.set('bob:daily', 2, 60000);
+    assert.equal(existsSync(path), false);
+
+    mock.timers.tick(500);
+    assert.deepEqual(Object.keys(JSON.parse(readFileSync(path, 'utf8'))), ['alice:daily', 'bob:daily']);
+
+    store.dispose();
+  });
+
+  test('writes pending changes on dispose and reads them back', () => {
+    const path = join(directory, 'cooldowns.json');
+    const store = new JsonFileCooldownStore(path);
+
+    store.set('alice:daily', 1, 60000);
+    store.dispose();
+
+    const restored = new JsonFileCooldownStore(path);
+    assert.equal(restored.get('alice:daily'), 1);
+    restored.dispose();
+  });
+
+  test('shares cooldowns between stores of the same file', () => {
+    const path = join(directory, 'cooldowns.json');
+    const first = new JsonFileCooldownStore(path);
+    const second = new JsonFileCooldownStore(path);
+
+    first.set('alice:daily', 1, 60000);
+    second.set('bob:daily', 2, 60000);
+    first.flush();
+    second.flush();
+
+    assert.equal(second.get('alice:daily'), 1);
+    assert.equal(first.get('bob:daily'), 2);
+    assert.deepEqual(Object.keys(JSON.parse(readFileSync(path, 'utf8'))).sort(), ['alice:daily', 'bob:daily']);
+
+    second.delete('alice:daily');
+    second.flush();
+    assert.equal(first.get('alice:daily'), undefined);
+
+    first.dispose();
+    second.dispose();
+  });
+
+  test('keeps the later expiry when two stores start the same cooldown', () => {
+    const path = join(directory, 'cooldowns.json');
+    const first = new JsonFileCooldownStore(path);
+    const second = new JsonFileCooldownStore(path);
+
+    first.set('alice:daily', 1, 60000);
+    second.set('alice:daily', 2, 120000);
+    second.flush();
+    first.flush();
+
+    assert.equal(new JsonFileCooldownStore(path).get('alice:daily'), 2);
+
+    first.dispose();
+    second.dispose();
+  });
+
+  test('listens for the process exit only while changes are unsaved', () => {
+    const listeners = process.listenerCount('exit');
+    const stores = Array.from({ length: 20 }, (_, i) => new JsonFileCooldownStore(join(directory, `${i}.json`)));
+
+    stores.forEach(store => store.set('alice:daily', 1, 60000));
+    assert.equal(process.listenerCount('exit'), listeners + 1);
+
+    stores.forEach(store => store.dispose());
+    assert.equal(process.listenerCount('exit'), listeners);
+  });
+});
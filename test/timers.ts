@@ -0,0 +1,4 @@
+import { mock } from 'node:test';
+
+// discord.js keeps its own references to the timer functions, so they have to be faked before it is loaded
+mock.timers.enable({ apis: ['setTimeout', 'setInterval', 'Date'], now: 1_700_000_000_000 });